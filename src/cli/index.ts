@@ -1,20 +1,50 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import chalk from 'chalk';
 
-import { runMigrations } from '../lib/runner.js';
+import {
+  runMigrations,
+  rollbackMigrations,
+  rebaseMigrations,
+  baselineMigrations,
+  markMigrationApplied,
+  unmarkMigration,
+  getMigrationStatus,
+  getMigrationsDir,
+  formatSnapshots,
+  PlannedVersion,
+} from '../lib/runner.js';
 import { loadConfig } from '../lib/config.js';
 import {
   createAppwriteClient,
   ensureMigrationCollection,
-  getAppliedMigrations,
+  getMigrationHistory,
 } from '../lib/appwrite.js';
-import { configureClient, pullSnapshot, getSnapshotFilename } from '../lib/cli.js';
-import { generateSchemaDoc } from '../lib/diagram.js';
+import { getSnapshotFilename } from '../lib/cli.js';
+import {
+  ChangeKind,
+  compareSchemas,
+  formatSchemaDiffMarkdown,
+  formatSetting,
+  SchemaDiff,
+} from '../lib/diff.js';
+import { generateDocs, writeSchemaDocs } from '../lib/docs.js';
+import { detectDrift } from '../lib/drift.js';
+import { getLock, forceUnlock } from '../lib/lock.js';
+import { consoleLogger, silentLogger } from '../lib/logger.js';
+import { writeSnapshot } from '../lib/snapshot.js';
+import { pullSchema } from '../lib/sync.js';
+import { validateMigrations } from '../lib/validate.js';
+import {
+  discoverVersions,
+  getVersionNaming,
+  nextVersionNames,
+  VersionNaming,
+} from '../lib/versions.js';
 import {
   loadSecurityLedger,
   saveSecurityLedger,
@@ -24,18 +54,112 @@ import {
 
 const program = new Command();
 
-const generateDocs = (snapshotPath: string, version: string, outputDir: string): void => {
-  if (!fs.existsSync(snapshotPath)) return;
+/**
+ * Parse an option value that must be a positive integer.
+ */
+const parsePositiveInteger = (value: string): number => {
+  if (!/^\d+$/.test(value) || Number(value) < 1) {
+    throw new InvalidArgumentError('Expected a positive integer.');
+  }
+  return Number(value);
+};
+
+const CHANGE_SYMBOLS: Record<ChangeKind, string> = {
+  create: chalk.green('+'),
+  update: chalk.yellow('~'),
+  delete: chalk.red('-'),
+};
+
+/**
+ * Print the plan of a dry run: each pending version, the snapshot it would push, the
+ * resources that push would create, change or delete, and its destructive changes.
+ */
+const printMigrationPlan = (plan: PlannedVersion[]): void => {
+  console.log(chalk.bold.underline('\nMigration Plan (dry run):\n'));
+
+  for (const { version, id, description, snapshotPath, changes, destructive } of plan) {
+    console.log(chalk.bold(`${version} (${id})`) + ` ${chalk.yellow('PENDING')}`);
+    if (description) {
+      console.log(`  ${chalk.italic(description)}`);
+    }
+
+    if (snapshotPath) {
+      console.log(`  Push ${path.relative(process.cwd(), snapshotPath)}`);
+      if (changes.length === 0) {
+        console.log(chalk.gray('    No schema changes.'));
+      }
+      for (const change of changes) {
+        const fields = change.settings.map(({ field }) => field);
+        const detail = fields.length > 0 ? chalk.gray(` (${fields.join(', ')})`) : '';
+        console.log(`    ${CHANGE_SYMBOLS[change.kind]} ${change.type} ${change.id}${detail}`);
+      }
+      for (const change of destructive) {
+        const line = `    ! ${change.kind} ${change.id} (${change.reason})`;
+        console.log(
+          change.allowed ? chalk.yellow(`${line} allowed`) : chalk.red(`${line} BLOCKED`),
+        );
+      }
+    } else {
+      console.log(chalk.gray(`  No ${getSnapshotFilename()}. Schema sync skipped.`));
+    }
+
+    console.log('  Run up script');
+    console.log('');
+  }
+};
 
-  const markdown = generateSchemaDoc(snapshotPath, version);
+/**
+ * Print a schema diff as colored terminal text: one line per change, followed by the settings
+ * that changed.
+ */
+const printSchemaDiff = ({ from, to, changes }: SchemaDiff): void => {
+  console.log(chalk.bold.underline(`\nSchema diff ${from} → ${to}\n`));
+  if (changes.length === 0) {
+    console.log(chalk.gray('No schema changes.\n'));
+    return;
+  }
 
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
+  for (const change of changes) {
+    const summary = change.summary ? chalk.gray(`  ${change.summary}`) : '';
+    console.log(`${CHANGE_SYMBOLS[change.kind]} ${change.type} ${chalk.bold(change.id)}${summary}`);
+    for (const { field, from: before, to: after } of change.settings) {
+      console.log(
+        `    ${field}: ${chalk.red(formatSetting(before))} → ${chalk.green(formatSetting(after))}`,
+      );
+    }
   }
+  console.log('');
+};
 
-  const outputPath = path.join(outputDir, 'docs.md');
-  fs.writeFileSync(outputPath, markdown);
-  console.log(chalk.green(`Docs updated at ${outputPath}`));
+/**
+ * Ask before a risky change; `--yes` skips the prompt.
+ */
+const confirm = async (message: string, yes?: boolean): Promise<boolean> => {
+  if (yes) return true;
+  const { default: inquirer } = await import('inquirer');
+  const { confirmed } = await inquirer.prompt<{ confirmed: boolean }>([
+    { type: 'confirm', name: 'confirmed', message, default: false },
+  ]);
+  return confirmed;
+};
+
+/**
+ * Ask before a command changes a target marked as production. Without a terminal to ask in,
+ * `--yes` is required.
+ */
+const confirmTarget = async (action: string): Promise<boolean> => {
+  const { env, target, yes } = program.opts();
+  const config = loadConfig(env, silentLogger, target);
+  if (!config.production || yes) return true;
+
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      `Target '${target}' is a production environment. Re-run with --yes to confirm.`,
+    );
+  }
+  return confirm(
+    `${action} on production target '${target}' (project ${config.projectId}). Continue?`,
+  );
 };
 
 program
@@ -43,6 +167,11 @@ program
   .description('Appwrite CLI for managing migrations and other operations');
 
 program.option('-e, --env <path>', 'Path to environment file', '.env');
+program.option(
+  '-t, --target <name>',
+  'Named environment from appwrite-ctl.config.json (instead of the APPWRITE_* variables)',
+);
+program.option('-y, --yes', 'Skip confirmation prompts, including those of production targets');
 
 program
   .command('init')
@@ -82,12 +211,16 @@ migrations
   .action(async () => {
     try {
       const options = program.opts();
-      const config = loadConfig(options.env);
+      if (!(await confirmTarget('Create the tracking collections'))) {
+        console.log(chalk.yellow('Aborted.'));
+        return;
+      }
+      const config = loadConfig(options.env, consoleLogger, options.target);
       const { databases } = createAppwriteClient(config);
       await ensureMigrationCollection(databases, config);
       console.log(
         chalk.green(
-          `System database '${config.database}' and collection '${config.migrationCollectionId}' ensured.`,
+          `System database '${config.database}' and collections '${config.migrationCollectionId}', '${config.lockCollectionId}' ensured.`,
         ),
       );
     } catch (error: any) {
@@ -96,37 +229,30 @@ migrations
     }
   });
 
-migrations
-  .command('create')
-  .description('Create a new migration version')
-  .action(async () => {
-    const migrationsDir = path.join(process.cwd(), 'appwrite', 'migration');
-
-    if (!fs.existsSync(migrationsDir)) {
-      fs.mkdirSync(migrationsDir, { recursive: true });
-    }
-    const snapshotFilename = getSnapshotFilename();
-
-    // Find next version number
-    const versionDirs = fs
-      .readdirSync(migrationsDir)
-      .filter(
-        (dir) => dir.startsWith('v') && fs.statSync(path.join(migrationsDir, dir)).isDirectory(),
-      )
-      .map((d) => parseInt(d.substring(1)))
-      .sort((a, b) => a - b);
+/**
+ * Create the next version directory with an `index.ts` whose `up` and `down` do nothing yet.
+ */
+const scaffoldVersion = (
+  naming: VersionNaming,
+  description?: string,
+): { version: string; versionPath: string } => {
+  const migrationsDir = getMigrationsDir();
+
+  if (!fs.existsSync(migrationsDir)) {
+    fs.mkdirSync(migrationsDir, { recursive: true });
+  }
 
-    const nextVersion = (versionDirs.length > 0 ? versionDirs[versionDirs.length - 1] : 0) + 1;
-    const versionPath = path.join(migrationsDir, `v${nextVersion}`);
-    const name = `migration_v${nextVersion}`;
+  const [nextVersion] = nextVersionNames(discoverVersions(migrationsDir), naming);
+  const versionPath = path.join(migrationsDir, nextVersion);
+  const name = `migration_${nextVersion}`;
 
-    fs.mkdirSync(versionPath);
+  fs.mkdirSync(versionPath);
 
-    const indexContent = `import { Migration } from "appwrite-ctl";
+  const indexContent = `import { Migration } from "appwrite-ctl";
 
 const migration: Migration = {
   id: "${uuidv4()}",
-  description: "${name}",
+  description: "${description ?? name}",
   up: async ({ client, databases, log, error }) => {
     log("Executing up migration for ${name}");
     // Write your migration logic here
@@ -139,16 +265,35 @@ const migration: Migration = {
 export default migration;
 `;
 
-    fs.writeFileSync(path.join(versionPath, 'index.ts'), indexContent);
+  fs.writeFileSync(path.join(versionPath, 'index.ts'), indexContent);
+  return { version: nextVersion, versionPath };
+};
+
+migrations
+  .command('create')
+  .description('Create a new migration version')
+  .option(
+    '--naming <scheme>',
+    'Version naming scheme: sequential (v8) or timestamp (v20250314093000). ' +
+      'Defaults to versionNaming in appwrite-ctl.config.json',
+  )
+  .action(async (cmdOptions: { naming?: VersionNaming }) => {
+    const snapshotFilename = getSnapshotFilename();
 
-    // Snapshot logic: always pull from Appwrite via CLI for a new migration.
-    console.log(chalk.blue('Pulling latest schema from Appwrite via CLI...'));
+    // Find next version name
+    const naming = cmdOptions.naming ?? getVersionNaming();
+    if (naming !== 'sequential' && naming !== 'timestamp') {
+      console.error(chalk.red(`Unknown naming scheme '${naming}'. Use sequential or timestamp.`));
+      process.exit(1);
+    }
+    const { version: nextVersion, versionPath } = scaffoldVersion(naming);
+
+    // Snapshot logic: always pull from Appwrite for a new migration.
+    console.log(chalk.blue('Pulling latest schema from Appwrite...'));
 
     try {
       const options = program.opts();
-      const config = loadConfig(options.env);
-      await configureClient(config);
-      await pullSnapshot(versionPath);
+      await pullSchema(options.env, { targetDir: versionPath, target: options.target });
       console.log(chalk.green('Successfully pulled snapshot from Appwrite.'));
     } catch (error: any) {
       console.error(chalk.red(`Failed to pull snapshot: ${error.message}`));
@@ -165,47 +310,42 @@ export default migration;
         topics: [],
       };
 
-      fs.writeFileSync(
-        path.join(versionPath, snapshotFilename),
-        JSON.stringify(emptySnapshot, null, 2),
-      );
+      writeSnapshot(path.join(versionPath, snapshotFilename), emptySnapshot);
     }
 
-    console.log(chalk.green(`Created migration v${nextVersion} at ${versionPath}`));
+    console.log(chalk.green(`Created migration ${nextVersion} at ${versionPath}`));
 
-    generateDocs(path.join(versionPath, snapshotFilename), `v${nextVersion}`, versionPath);
-    generateDocs(
+    writeSchemaDocs(path.join(versionPath, snapshotFilename), nextVersion, versionPath);
+    writeSchemaDocs(
       path.join(versionPath, snapshotFilename),
-      `v${nextVersion}`,
+      nextVersion,
       path.join(process.cwd(), 'appwrite'),
     );
   });
 
 migrations
   .command('update <version>')
-  .description('Update snapshot for a version by pulling current state from Appwrite via CLI')
+  .description('Update snapshot for a version by pulling current state from Appwrite')
   .action(async (version) => {
-    const migrationsDir = path.join(process.cwd(), 'appwrite', 'migration');
-    const versionPath = path.join(migrationsDir, version);
+    const versionPath = path.join(getMigrationsDir(), version);
 
     if (!fs.existsSync(versionPath)) {
       console.error(chalk.red(`Version directory ${version} not found.`));
       process.exit(1);
     }
 
-    console.log(chalk.blue(`Updating snapshot for ${version} via CLI pull...`));
+    console.log(chalk.blue(`Updating snapshot for ${version}...`));
 
     try {
       const options = program.opts();
-      const config = loadConfig(options.env);
-
-      await configureClient(config);
-      await pullSnapshot(versionPath);
+      const { snapshotPath } = await pullSchema(options.env, {
+        targetDir: versionPath,
+        target: options.target,
+      });
 
       console.log(chalk.green(`Successfully updated snapshot for ${version}`));
 
-      const snapshotFilename = getSnapshotFilename();
-      generateDocs(path.join(versionPath, snapshotFilename), version, versionPath);
+      writeSchemaDocs(snapshotPath, version, versionPath);
       console.log(chalk.green(`Successfully updated docs.md for ${version}`));
     } catch (error: any) {
       console.error(chalk.red(`Failed to update snapshot: ${error.message}`));
@@ -216,12 +356,215 @@ migrations
 migrations
   .command('run')
   .description('Execute pending migrations')
-  .action(async () => {
+  .option('--dry-run', 'Print the migration plan without changing anything')
+  .option('--allow-modified', 'Proceed even if applied versions were modified since they ran')
+  .option('--to <version>', 'Apply pending versions up to and including this one (e.g. v7)')
+  .option('--only <version>', 'Apply only this version; earlier versions must be applied')
+  .option('--force', 'With --only: re-apply the version even if it is already applied')
+  .option(
+    '--allow-out-of-order',
+    'Apply pending versions ordered before applied ones instead of refusing to run',
+  )
+  .option(
+    '--allow-destructive',
+    'Push snapshots that drop or narrow resources even if their versions do not allow it',
+  )
+  .action(
+    async (cmdOptions: {
+      dryRun?: boolean;
+      allowModified?: boolean;
+      to?: string;
+      only?: string;
+      force?: boolean;
+      allowOutOfOrder?: boolean;
+      allowDestructive?: boolean;
+    }) => {
+      try {
+        const options = program.opts();
+        if (!cmdOptions.dryRun && !(await confirmTarget('Apply pending migrations'))) {
+          console.log(chalk.yellow('Aborted.'));
+          return;
+        }
+        const result = await runMigrations(options.env, { ...cmdOptions, target: options.target });
+        if (result.plan.length > 0) {
+          printMigrationPlan(result.plan);
+          console.log(chalk.gray('Dry run complete. Nothing was changed.'));
+        }
+      } catch (error: any) {
+        console.error(chalk.red('Migration run failed:'), error.message);
+        process.exit(1);
+      }
+    },
+  );
+
+migrations
+  .command('baseline <version>')
+  .description(
+    'Record every version up to and including <version> as applied, without pushing or running them',
+  )
+  .option('--pull', "Pull the live schema as the version's snapshot first")
+  .action(async (version: string, cmdOptions: { pull?: boolean }) => {
+    try {
+      const options = program.opts();
+      if (!(await confirmTarget(`Baseline up to ${version}`))) {
+        console.log(chalk.yellow('Aborted.'));
+        return;
+      }
+      await baselineMigrations(options.env, version, { ...cmdOptions, target: options.target });
+    } catch (error: any) {
+      console.error(chalk.red('Baseline failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
+migrations
+  .command('mark-applied <version>')
+  .description('Record a version as applied without running it (e.g. after a manual fix)')
+  .action(async (version: string) => {
+    try {
+      const options = program.opts();
+      const confirmed = await confirm(
+        `Record ${version} as applied by ${resolveAuthor()}? Its snapshot and up script will not run.`,
+        options.yes,
+      );
+      if (!confirmed || !(await confirmTarget(`Record ${version} as applied`))) {
+        console.log(chalk.yellow('Aborted.'));
+        return;
+      }
+      await markMigrationApplied(options.env, version, { target: options.target });
+    } catch (error: any) {
+      console.error(chalk.red('Mark applied failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
+migrations
+  .command('unmark <version>')
+  .description('Reset an applied version to pending without running its down function')
+  .action(async (version: string) => {
+    try {
+      const options = program.opts();
+      const confirmed = await confirm(
+        `Reset ${version} to pending as ${resolveAuthor()}? The next run will apply it again.`,
+        options.yes,
+      );
+      if (!confirmed || !(await confirmTarget(`Reset ${version} to pending`))) {
+        console.log(chalk.yellow('Aborted.'));
+        return;
+      }
+      await unmarkMigration(options.env, version, { target: options.target });
+    } catch (error: any) {
+      console.error(chalk.red('Unmark failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
+migrations
+  .command('rebase')
+  .description(
+    'Renumber unapplied versions ordered before or colliding with applied ones (e.g. after a merge)',
+  )
+  .option('--dry-run', 'Print the renames without changing anything')
+  .action(async (cmdOptions: { dryRun?: boolean }) => {
+    try {
+      const options = program.opts();
+      const { renamed } = await rebaseMigrations(options.env, {
+        ...cmdOptions,
+        target: options.target,
+      });
+      if (renamed.length > 0 && cmdOptions.dryRun) {
+        console.log(chalk.gray('Dry run complete. Nothing was renamed.'));
+      }
+    } catch (error: any) {
+      console.error(chalk.red('Rebase failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
+migrations
+  .command('down')
+  .description('Roll back applied migrations in reverse order using their down functions')
+  .option('--to <version>', 'Roll back every applied version after this one (e.g. v3)')
+  .option('--steps <n>', 'Number of applied versions to roll back (default: 1)')
+  .action(async (cmdOptions: { to?: string; steps?: string }) => {
     try {
       const options = program.opts();
-      await runMigrations(options.env);
+      if (!(await confirmTarget('Roll back migrations'))) {
+        console.log(chalk.yellow('Aborted.'));
+        return;
+      }
+      await rollbackMigrations(options.env, {
+        target: options.target,
+        to: cmdOptions.to,
+        steps: cmdOptions.steps !== undefined ? Number(cmdOptions.steps) : undefined,
+      });
+    } catch (error: any) {
+      console.error(chalk.red('Rollback failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
+migrations
+  .command('unlock')
+  .description('Release the migration lock left behind by a crashed run')
+  .option('--force', 'Delete the lock regardless of its holder')
+  .action(async (cmdOptions: { force?: boolean }) => {
+    try {
+      const options = program.opts();
+      const config = loadConfig(options.env, consoleLogger, options.target);
+      const { databases } = createAppwriteClient(config);
+
+      const lock = await getLock(databases, config);
+      if (!lock) {
+        console.log(chalk.green('Migrations are not locked.'));
+        return;
+      }
+
+      console.log(
+        `Locked by ${chalk.bold(lock.holder)} since ${lock.acquiredAt} (last heartbeat ${lock.heartbeatAt}, ttl ${lock.ttl}s).`,
+      );
+
+      if (!cmdOptions.force) {
+        console.error(
+          chalk.red('Refusing to release a lock that may still be held. Re-run with --force.'),
+        );
+        process.exit(1);
+      }
+      if (!(await confirmTarget('Release the migration lock'))) {
+        console.log(chalk.yellow('Aborted.'));
+        return;
+      }
+
+      await forceUnlock(databases, config);
+      console.log(chalk.green('Migration lock released.'));
+    } catch (error: any) {
+      console.error(chalk.red('Unlock failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
+migrations
+  .command('validate')
+  .description(
+    'Check every migration version offline: loadable scripts, unique ids and valid snapshots',
+  )
+  .action(async () => {
+    try {
+      const { versions, issues, valid } = await validateMigrations();
+
+      for (const { level, version, message } of issues) {
+        const label = level === 'error' ? chalk.red('ERROR  ') : chalk.yellow('WARNING');
+        console.log(`${label} ${chalk.bold((version ?? '').padEnd(10))} ${message}`);
+      }
+
+      const errors = issues.filter(({ level }) => level === 'error').length;
+      if (!valid) {
+        console.error(chalk.red(`\n${errors} error(s) found in ${versions} versions.`));
+        process.exit(1);
+      }
+      console.log(chalk.green(`${versions} versions valid.`));
     } catch (error: any) {
-      console.error(chalk.red('Migration run failed:'), error.message);
+      console.error(chalk.red('Validation failed:'), error.message);
       process.exit(1);
     }
   });
@@ -229,40 +572,46 @@ migrations
 migrations
   .command('status')
   .description('List migration status')
-  .action(async () => {
+  .option('--json', 'Print the status as JSON')
+  .action(async (cmdOptions: { json?: boolean }) => {
     try {
       const options = program.opts();
-      const config = loadConfig(options.env);
-      const { databases } = createAppwriteClient(config);
-      const appliedIds = await getAppliedMigrations(databases, config);
-      const appliedSet = new Set(appliedIds);
+      const report = await getMigrationStatus(options.env, {
+        target: options.target,
+        logger: cmdOptions.json ? silentLogger : consoleLogger,
+      });
 
-      const migrationsDir = path.join(process.cwd(), 'appwrite', 'migration');
-      if (!fs.existsSync(migrationsDir)) {
-        console.log('No migrations directory found.');
+      if (cmdOptions.json) {
+        console.log(JSON.stringify(report, null, 2));
         return;
       }
 
-      const versionDirs = fs
-        .readdirSync(migrationsDir)
-        .filter(
-          (dir) => dir.startsWith('v') && fs.statSync(path.join(migrationsDir, dir)).isDirectory(),
-        )
-        .sort((a, b) => parseInt(a.substring(1)) - parseInt(b.substring(1)));
+      const statusColors = {
+        applied: chalk.green,
+        modified: chalk.red,
+        pending: chalk.yellow,
+        running: chalk.cyan,
+        failed: chalk.red,
+        invalid: chalk.red,
+      };
 
       console.log(chalk.bold.underline('\nMigration Status:\n'));
 
-      for (const version of versionDirs) {
-        const indexPath = path.join(migrationsDir, version, 'index.ts');
-        let id = 'unknown';
-        if (fs.existsSync(indexPath)) {
-          const content = fs.readFileSync(indexPath, 'utf8');
-          const match = content.match(/id:\s*["']([^"']+)["']/);
-          if (match) id = match[1];
-        }
+      for (const { version, id, description, status, appliedAt, error } of report.versions) {
+        console.log(
+          `${version.padEnd(10)} ${statusColors[status](status.toUpperCase().padEnd(8))} ${chalk.gray(appliedAt ?? '')} [${id ?? 'unknown'}]`,
+        );
+        if (description) console.log(`  ${chalk.italic(description)}`);
+        if (error) console.log(`  ${chalk.red(error)}`);
+      }
 
-        const status = appliedSet.has(id) ? chalk.green('APPLIED') : chalk.yellow('PENDING');
-        console.log(`${version.padEnd(10)} [${id}] ${status}`);
+      if (report.orphans.length > 0) {
+        console.log(chalk.bold.underline('\nOrphaned Records (no local version):\n'));
+        for (const record of report.orphans) {
+          console.log(
+            `${record.name.padEnd(10)} ${chalk.yellow((record.status ?? 'succeeded').toUpperCase())} ${chalk.gray(record.appliedAt)} [${record.id}]`,
+          );
+        }
       }
       console.log('');
     } catch (error: any) {
@@ -271,6 +620,60 @@ migrations
     }
   });
 
+migrations
+  .command('history')
+  .description('Show the audit log of migration runs recorded in Appwrite')
+  .option('--limit <n>', 'Show only the N most recent runs', parsePositiveInteger)
+  .action(async (cmdOptions: { limit?: number }) => {
+    try {
+      const options = program.opts();
+      const config = loadConfig(options.env, consoleLogger, options.target);
+      const { databases } = createAppwriteClient(config);
+      let records = await getMigrationHistory(databases, config);
+
+      if (cmdOptions.limit !== undefined) {
+        records = records.slice(0, cmdOptions.limit);
+      }
+
+      if (records.length === 0) {
+        console.log(chalk.yellow('No migration runs recorded.'));
+        return;
+      }
+
+      const statusColors = {
+        succeeded: chalk.green,
+        failed: chalk.red,
+        running: chalk.yellow,
+        unmarked: chalk.gray,
+        'rolled-back': chalk.magenta,
+      };
+
+      console.log(chalk.bold.underline('\nMigration History\n'));
+
+      for (const record of records) {
+        const status = record.status ?? 'succeeded';
+        const duration =
+          record.durationMs !== undefined ? `${(record.durationMs / 1000).toFixed(1)}s` : '—';
+        console.log(
+          `${chalk.gray(record.appliedAt)} ${chalk.bold(record.name.padEnd(10))} ${statusColors[status](status.toUpperCase().padEnd(11))} ${duration.padStart(8)}  ${chalk.cyan(record.executedBy ?? 'unknown')} ${chalk.gray(`appwrite-ctl ${record.toolVersion ?? '?'}`)}`,
+        );
+        console.log(
+          chalk.gray(`  [${record.id}] checksum ${record.checksum?.slice(0, 12) ?? 'unknown'}`),
+        );
+        if (record.source && record.source !== 'run' && record.source !== 'rollback') {
+          console.log(chalk.gray(`  changed by ${record.source}, not executed`));
+        }
+        if (record.error) {
+          console.log(`  ${chalk.red(record.error)}`);
+        }
+      }
+      console.log('');
+    } catch (error: any) {
+      console.error(chalk.red('History failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
 program
   .command('docs [version]')
   .description(
@@ -280,42 +683,126 @@ program
   .action(async (version?: string) => {
     try {
       const options = program.opts();
-      const appwriteDir = path.join(process.cwd(), 'appwrite');
-
-      if (version) {
-        // Use stored snapshot for the given version without hitting Appwrite.
-        const versionPath = path.join(appwriteDir, 'migration', version);
-        if (!fs.existsSync(versionPath)) {
-          console.error(chalk.red(`Version directory '${version}' not found.`));
-          process.exit(1);
-        }
-        const snapshotFilename = getSnapshotFilename();
-        const snapshotPath = path.join(versionPath, snapshotFilename);
-        if (!fs.existsSync(snapshotPath)) {
-          console.error(chalk.red(`No snapshot found for ${version}.`));
-          process.exit(1);
-        }
-        console.log(chalk.blue(`Generating docs from stored snapshot for ${version}...`));
-        generateDocs(snapshotPath, version, appwriteDir);
-        generateDocs(snapshotPath, version, versionPath);
+      await generateDocs(options.env, { version, target: options.target });
+    } catch (error: any) {
+      console.error(chalk.red('Docs generation failed:'), error.message);
+      process.exit(1);
+    }
+  });
+
+const DIFF_FORMATS = ['terminal', 'markdown', 'json'] as const;
+
+program
+  .command('diff <from> <to>')
+  .description(
+    'Show the schema changes between two snapshots. Each side is a version (e.g. v4), ' +
+      '`live` for the current Appwrite schema, or a path to an appwrite.config.json file.',
+  )
+  .option('--format <format>', 'Output format: terminal, markdown or json', 'terminal')
+  .action(async (from: string, to: string, cmdOptions: { format: string }) => {
+    try {
+      if (!DIFF_FORMATS.includes(cmdOptions.format as (typeof DIFF_FORMATS)[number])) {
+        throw new Error(`Unknown format '${cmdOptions.format}'. Use ${DIFF_FORMATS.join(', ')}.`);
+      }
+      const options = program.opts();
+      const diff = await compareSchemas(options.env, from, to, {
+        target: options.target,
+        // Keep machine-readable output clean.
+        logger: cmdOptions.format === 'terminal' ? consoleLogger : silentLogger,
+      });
+
+      if (cmdOptions.format === 'json') {
+        console.log(JSON.stringify(diff, null, 2));
+      } else if (cmdOptions.format === 'markdown') {
+        process.stdout.write(formatSchemaDiffMarkdown(diff));
       } else {
-        const config = loadConfig(options.env);
+        printSchemaDiff(diff);
+      }
+    } catch (error: any) {
+      console.error(chalk.red('Diff failed:'), error.message);
+      process.exit(1);
+    }
+  });
 
-        console.log(chalk.blue(`Pulling latest schema from Appwrite to project root...`));
-        await configureClient(config);
+program
+  .command('drift')
+  .description(
+    'Compare the live schema with the snapshot of the newest applied version. ' +
+      'Exits with code 2 if they differ.',
+  )
+  .option('--format <format>', 'Output format: terminal, markdown or json', 'terminal')
+  .option('--write', 'Record the live schema as a new migration version')
+  .option(
+    '--naming <scheme>',
+    'With --write: version naming scheme (sequential or timestamp). ' +
+      'Defaults to versionNaming in appwrite-ctl.config.json',
+  )
+  .action(async (cmdOptions: { format: string; write?: boolean; naming?: VersionNaming }) => {
+    let drifted = false;
+    try {
+      if (!DIFF_FORMATS.includes(cmdOptions.format as (typeof DIFF_FORMATS)[number])) {
+        throw new Error(`Unknown format '${cmdOptions.format}'. Use ${DIFF_FORMATS.join(', ')}.`);
+      }
+      const naming = cmdOptions.naming ?? getVersionNaming();
+      if (naming !== 'sequential' && naming !== 'timestamp') {
+        throw new Error(`Unknown naming scheme '${naming}'. Use sequential or timestamp.`);
+      }
+      const options = program.opts();
+      // Keep machine-readable output clean.
+      const logger = cmdOptions.format === 'terminal' ? consoleLogger : silentLogger;
+      const result = await detectDrift(options.env, { target: options.target, logger });
+
+      if (cmdOptions.format === 'json') {
+        console.log(JSON.stringify(result.diff, null, 2));
+      } else if (cmdOptions.format === 'markdown') {
+        process.stdout.write(formatSchemaDiffMarkdown(result.diff));
+      } else {
+        printSchemaDiff(result.diff);
+      }
 
-        const snapshotPath = await pullSnapshot();
+      drifted = result.drifted;
+      if (drifted && cmdOptions.write) {
+        const { version, versionPath } = scaffoldVersion(
+          naming,
+          `Record schema drift since ${result.version}`,
+        );
+        const snapshotPath = path.join(versionPath, getSnapshotFilename());
+        writeSnapshot(snapshotPath, result.live);
+        writeSchemaDocs(snapshotPath, version, versionPath, logger);
+        writeSchemaDocs(snapshotPath, version, path.join(process.cwd(), 'appwrite'), logger);
+        logger.success(`Recorded the live schema as ${version} at ${versionPath}`);
+        drifted = false;
+      }
+    } catch (error: any) {
+      console.error(chalk.red('Drift check failed:'), error.message);
+      process.exit(1);
+    }
+    if (drifted) process.exit(2);
+  });
 
-        console.log(chalk.blue('Generating documentation...'));
-        generateDocs(snapshotPath, 'latest', appwriteDir);
+const snapshot = program.command('snapshot').description('Manage version snapshots');
 
-        // Cleanup the temporary snapshot pulled to root
-        if (fs.existsSync(snapshotPath)) {
-          fs.unlinkSync(snapshotPath);
-        }
+snapshot
+  .command('format [versions...]')
+  .description(
+    'Rewrite version snapshots in canonical form: sorted resources, columns, indexes and ' +
+      'permissions, without server-managed fields. Defaults to every version.',
+  )
+  .option('--check', 'Only list snapshots that are not formatted; exits non-zero if any')
+  .action((versions: string[], cmdOptions: { check?: boolean }) => {
+    try {
+      const { formatted } = formatSnapshots({
+        versions: versions.length > 0 ? versions : undefined,
+        check: cmdOptions.check,
+      });
+      if (formatted.length === 0) {
+        console.log(chalk.green('All snapshots are formatted.'));
+      } else if (cmdOptions.check) {
+        console.error(chalk.red(`${formatted.length} snapshots are not formatted.`));
+        process.exit(1);
       }
     } catch (error: any) {
-      console.error(chalk.red('Docs generation failed:'), error.message);
+      console.error(chalk.red('Snapshot format failed:'), error.message);
       process.exit(1);
     }
   });
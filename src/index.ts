@@ -1,5 +1,24 @@
 export * from './types/index.js';
+export * from './lib/apply.js';
 export * from './lib/appwrite.js';
+export * from './lib/bulk.js';
+export * from './lib/checkpoint.js';
 export * from './lib/config.js';
 export * from './lib/cli.js';
+export * from './lib/destructive.js';
+export * from './lib/diff.js';
+export * from './lib/docs.js';
+export * from './lib/drift.js';
+export * from './lib/errors.js';
+export * from './lib/hooks.js';
+export * from './lib/lock.js';
+export * from './lib/logger.js';
+export * from './lib/puller.js';
+export * from './lib/retry.js';
 export * from './lib/runner.js';
+export * from './lib/scope.js';
+export * from './lib/snapshot.js';
+export * from './lib/sync.js';
+export * from './lib/validate.js';
+export * from './lib/versions.js';
+export * from './lib/version.js';
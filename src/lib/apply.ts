@@ -0,0 +1,749 @@
+import {
+  Compression,
+  IndexType,
+  OrderBy,
+  RelationMutate,
+  RelationshipType,
+  TablesDB,
+} from 'node-appwrite';
+import { createAppwriteClient, getTrackingTableKeys } from './appwrite.js';
+import { configureClient, pushSnapshot, readSnapshot } from './cli.js';
+import { AppConfig } from './config.js';
+import { ChangeKind, isSchemaEqual, normalizeSetting } from './diff.js';
+import { SchemaPushError } from './errors.js';
+import { consoleLogger } from './logger.js';
+import { fetchSnapshot } from './puller.js';
+import { scopeSnapshot } from './scope.js';
+import type {
+  Bucket,
+  Column,
+  Database,
+  Index,
+  OperationLogger,
+  Snapshot,
+  Table,
+  Team,
+  Topic,
+} from '../types/index.js';
+
+/**
+ * How snapshots are pushed:
+ * - `sdk`: diffed against the live project and applied step by step through `node-appwrite`
+ *   (default).
+ * - `cli`: through `appwrite push --all --force`, which requires a globally installed
+ *   `appwrite-cli`.
+ */
+export type SchemaPusher = 'sdk' | 'cli';
+
+export type ApplyStepType =
+  | 'database'
+  | 'table'
+  | 'column'
+  | 'index'
+  | 'relationship'
+  | 'bucket'
+  | 'team'
+  | 'topic';
+
+interface ApplyStepBase {
+  action: ChangeKind;
+  /** Qualified resource ID: `databaseId/tableId` for tables, `databaseId/tableId/key` below. */
+  id: string;
+}
+
+/**
+ * One change of an apply plan. `resource` is the target definition, or the live one for
+ * deletions.
+ */
+export type ApplyStep = ApplyStepBase &
+  (
+    | { type: 'database'; resource: Database }
+    | { type: 'table'; resource: Table }
+    | { type: 'column' | 'relationship'; table: Table; resource: Column }
+    | { type: 'index'; table: Table; resource: Index }
+    | { type: 'bucket'; resource: Bucket }
+    | { type: 'team'; resource: Team }
+    | { type: 'topic'; resource: Topic }
+  );
+
+export interface ApplyPlanOptions {
+  /**
+   * Entries of the pushed version's `allowDestructive`. Teams and topics are created at runtime,
+   * so those missing from the snapshot are only deleted when allowed by kind (`drop-team`,
+   * `drop-topic`) or by ID.
+   */
+  allowDestructive?: string[];
+}
+
+export interface ApplyResult {
+  /** Steps that were executed, in order. */
+  steps: ApplyStep[];
+  durationMs: number;
+}
+
+type SchemaServices = Pick<
+  ReturnType<typeof createAppwriteClient>,
+  'tablesDB' | 'storage' | 'teams' | 'messaging'
+>;
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_ATTEMPTS = 150; // 150 × 2 s = 5-minute timeout per column or index
+
+// Column fields that cannot be changed in place: changing one recreates the column.
+export const IMMUTABLE_COLUMN_FIELDS = [
+  'type',
+  'format',
+  'array',
+  'encrypt',
+  'relatedTable',
+  'relationType',
+  'twoWay',
+  'twoWayKey',
+] as const;
+const MUTABLE_COLUMN_FIELDS = [
+  'required',
+  'default',
+  'size',
+  'min',
+  'max',
+  'elements',
+  'onDelete',
+] as const;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const sameFields = <T extends object>(a: T, b: T, fields: readonly (keyof T)[]): boolean =>
+  fields.every((field) => isSchemaEqual(normalizeSetting(a[field]), normalizeSetting(b[field])));
+
+const isRelationship = (column: Column): boolean => column.type === 'relationship';
+
+// The child side of a two-way relationship is created and deleted together with its parent.
+const isChildSide = (column: Column): boolean => isRelationship(column) && column.side === 'child';
+
+const sameIndex = (a: Index, b: Index): boolean =>
+  a.type === b.type &&
+  isSchemaEqual(a.columns, b.columns) &&
+  isSchemaEqual(a.orders ?? [], b.orders ?? []);
+
+const tableKey = (table: Table): string => `${table.databaseId}/${table.$id}`;
+
+/**
+ * Steps for a flat resource list (buckets, teams, topics): creations, updates, then deletions
+ * of the resources `canDelete` accepts.
+ */
+const diffSimple = <T extends Bucket | Team | Topic>(
+  type: 'bucket' | 'team' | 'topic',
+  live: T[],
+  target: T[],
+  fields: (keyof T)[],
+  canDelete: (id: string) => boolean = () => true,
+): ApplyStep[] => {
+  const liveById = new Map(live.map((resource) => [resource.$id, resource]));
+  const targetIds = new Set(target.map((resource) => resource.$id));
+  const steps: ApplyStep[] = [];
+
+  for (const resource of target) {
+    const current = liveById.get(resource.$id);
+    if (!current) {
+      steps.push({ action: 'create', type, id: resource.$id, resource } as ApplyStep);
+    } else if (!sameFields(current, resource, fields)) {
+      steps.push({ action: 'update', type, id: resource.$id, resource } as ApplyStep);
+    }
+  }
+  for (const resource of live) {
+    if (!targetIds.has(resource.$id) && canDelete(resource.$id)) {
+      steps.push({ action: 'delete', type, id: resource.$id, resource } as ApplyStep);
+    }
+  }
+  return steps;
+};
+
+/**
+ * Compute the ordered steps that turn the `live` schema into `target`: databases, tables,
+ * columns, indexes and relationships first, then deletions of tables and databases, then
+ * buckets, teams and topics.
+ *
+ * Indexes and columns that cannot be changed in place are deleted and recreated. The migration
+ * tracking database and collections are never touched, whatever the snapshot contains, and
+ * neither are resources outside of the configured scope. Teams and topics missing from the
+ * snapshot are kept unless `options.allowDestructive` allows deleting them.
+ */
+export const planSchemaApply = (
+  live: Snapshot,
+  target: Snapshot,
+  config: AppConfig,
+  options: ApplyPlanOptions = {},
+): ApplyStep[] => {
+  [live, target] = [scopeSnapshot(live, config.scope), scopeSnapshot(target, config.scope)];
+  const trackingTables = getTrackingTableKeys(config);
+  const isManaged = (table: Table) => !trackingTables.has(tableKey(table));
+
+  const databases: ApplyStep[] = [];
+  const tables: ApplyStep[] = [];
+  const indexDeletions: ApplyStep[] = [];
+  const columnDeletions: ApplyStep[] = [];
+  const columns: ApplyStep[] = [];
+  const indexes: ApplyStep[] = [];
+  const relationships: ApplyStep[] = [];
+  const tableDeletions: ApplyStep[] = [];
+  const databaseDeletions: ApplyStep[] = [];
+  const allow = options.allowDestructive ?? [];
+  const allowsDrop = (kind: string) => (id: string) => allow.includes(kind) || allow.includes(id);
+
+  const liveDatabases = new Map(live.tablesDB.map((database) => [database.$id, database]));
+  const targetDatabases = new Set(target.tablesDB.map((database) => database.$id));
+  for (const database of target.tablesDB) {
+    const current = liveDatabases.get(database.$id);
+    if (!current) {
+      databases.push({ action: 'create', type: 'database', id: database.$id, resource: database });
+    } else if (!sameFields(current, database, ['name', 'enabled'])) {
+      databases.push({ action: 'update', type: 'database', id: database.$id, resource: database });
+    }
+  }
+  for (const database of live.tablesDB) {
+    if (!targetDatabases.has(database.$id) && database.$id !== config.database) {
+      databaseDeletions.push({
+        action: 'delete',
+        type: 'database',
+        id: database.$id,
+        resource: database,
+      });
+    }
+  }
+
+  const liveTables = new Map(
+    live.tables.filter(isManaged).map((table) => [tableKey(table), table]),
+  );
+  const targetTables = target.tables.filter(isManaged);
+  for (const table of targetTables) {
+    const key = tableKey(table);
+    const current = liveTables.get(key);
+    if (!current) {
+      tables.push({ action: 'create', type: 'table', id: key, resource: table });
+    } else if (!sameFields(current, table, ['name', '$permissions', 'rowSecurity', 'enabled'])) {
+      tables.push({ action: 'update', type: 'table', id: key, resource: table });
+    }
+
+    // Columns.
+    const currentColumns = new Map(
+      (current?.columns ?? [])
+        .filter((column) => !isChildSide(column))
+        .map((column) => [column.key, column]),
+    );
+    const targetKeys = new Set(table.columns.map((column) => column.key));
+    const removedKeys = new Set<string>();
+
+    for (const column of table.columns.filter((column) => !isChildSide(column))) {
+      const type = isRelationship(column) ? 'relationship' : 'column';
+      const id = `${key}/${column.key}`;
+      const steps = type === 'relationship' ? relationships : columns;
+      const existing = currentColumns.get(column.key);
+
+      if (!existing) {
+        steps.push({ action: 'create', type, id, table, resource: column });
+      } else if (!sameFields(existing, column, IMMUTABLE_COLUMN_FIELDS)) {
+        removedKeys.add(column.key);
+        columnDeletions.push({ action: 'delete', type, id, table, resource: existing });
+        steps.push({ action: 'create', type, id, table, resource: column });
+      } else if (!sameFields(existing, column, MUTABLE_COLUMN_FIELDS)) {
+        steps.push({ action: 'update', type, id, table, resource: column });
+      }
+    }
+    for (const existing of currentColumns.values()) {
+      if (!targetKeys.has(existing.key)) {
+        removedKeys.add(existing.key);
+        columnDeletions.push({
+          action: 'delete',
+          type: isRelationship(existing) ? 'relationship' : 'column',
+          id: `${key}/${existing.key}`,
+          table,
+          resource: existing,
+        });
+      }
+    }
+
+    // Indexes. An index over a removed or recreated column is recreated as well.
+    const currentIndexes = new Map((current?.indexes ?? []).map((index) => [index.key, index]));
+    const targetIndexes = new Set(table.indexes.map((index) => index.key));
+    for (const index of table.indexes) {
+      const id = `${key}/${index.key}`;
+      const existing = currentIndexes.get(index.key);
+      if (
+        existing &&
+        (!sameIndex(existing, index) || existing.columns.some((column) => removedKeys.has(column)))
+      ) {
+        indexDeletions.push({ action: 'delete', type: 'index', id, table, resource: existing });
+      }
+      if (!existing || indexDeletions.some((step) => step.id === id)) {
+        indexes.push({ action: 'create', type: 'index', id, table, resource: index });
+      }
+    }
+    for (const existing of currentIndexes.values()) {
+      if (!targetIndexes.has(existing.key)) {
+        indexDeletions.push({
+          action: 'delete',
+          type: 'index',
+          id: `${key}/${existing.key}`,
+          table,
+          resource: existing,
+        });
+      }
+    }
+  }
+
+  const targetTableKeys = new Set(targetTables.map(tableKey));
+  for (const [key, table] of liveTables) {
+    if (!targetTableKeys.has(key)) {
+      tableDeletions.push({ action: 'delete', type: 'table', id: key, resource: table });
+    }
+  }
+
+  return [
+    ...databases,
+    ...tables,
+    ...indexDeletions,
+    ...columnDeletions,
+    ...columns,
+    ...indexes,
+    ...relationships,
+    ...tableDeletions,
+    ...databaseDeletions,
+    ...diffSimple('bucket', live.buckets, target.buckets, [
+      'name',
+      '$permissions',
+      'fileSecurity',
+      'enabled',
+      'maximumFileSize',
+      'allowedFileExtensions',
+      'compression',
+      'encryption',
+      'antivirus',
+    ]),
+    ...diffSimple('team', live.teams, target.teams, ['name'], allowsDrop('drop-team')),
+    ...diffSimple('topic', live.topics, target.topics, ['name'], allowsDrop('drop-topic')),
+  ];
+};
+
+/**
+ * One-line description of a step, e.g. `create column shop/orders/total`.
+ */
+export const describeApplyStep = (step: ApplyStep): string =>
+  `${step.action} ${step.type} ${step.id}`;
+
+/**
+ * Poll a column until Appwrite has finished processing it.
+ */
+const waitForColumn = async (
+  tablesDB: TablesDB,
+  databaseId: string,
+  tableId: string,
+  key: string,
+  logger: OperationLogger,
+): Promise<void> => {
+  for (let attempt = 1; attempt <= POLL_ATTEMPTS; attempt++) {
+    const column = (await tablesDB.getColumn(databaseId, tableId, key)) as {
+      status: string;
+      error?: string;
+    };
+    if (column.status === 'available') return;
+    if (column.status === 'failed' || column.status === 'stuck') {
+      throw new SchemaPushError(
+        `Column ${tableId}.${key} is ${column.status}${column.error ? `: ${column.error}` : ''}.`,
+      );
+    }
+    if (attempt === 1) logger.info(`    Waiting for column ${key} to be available...`);
+    await sleep(POLL_INTERVAL_MS);
+  }
+  throw new SchemaPushError(`Timed out waiting for column ${tableId}.${key} to be available.`);
+};
+
+/**
+ * Poll a deleted column or index until it is gone, so it can be recreated under the same key.
+ */
+const waitForRemoval = async (
+  get: () => Promise<unknown>,
+  label: string,
+  logger: OperationLogger,
+): Promise<void> => {
+  for (let attempt = 1; attempt <= POLL_ATTEMPTS; attempt++) {
+    try {
+      await get();
+    } catch (error: any) {
+      if (error.code === 404) return;
+      throw error;
+    }
+    if (attempt === 1) logger.info(`    Waiting for ${label} to be deleted...`);
+    await sleep(POLL_INTERVAL_MS);
+  }
+  throw new SchemaPushError(`Timed out waiting for ${label} to be deleted.`);
+};
+
+const createColumn = async (tablesDB: TablesDB, table: Table, column: Column): Promise<unknown> => {
+  const { databaseId, $id: tableId } = table;
+  const { key, required = false, array } = column;
+  const xdefault = (column.default ?? undefined) as any;
+
+  switch (column.type) {
+    case 'string':
+      switch (column.format) {
+        case 'email':
+          return tablesDB.createEmailColumn(databaseId, tableId, key, required, xdefault, array);
+        case 'url':
+          return tablesDB.createUrlColumn(databaseId, tableId, key, required, xdefault, array);
+        case 'ip':
+          return tablesDB.createIpColumn(databaseId, tableId, key, required, xdefault, array);
+        case 'enum':
+          return tablesDB.createEnumColumn(
+            databaseId,
+            tableId,
+            key,
+            column.elements ?? [],
+            required,
+            xdefault,
+            array,
+          );
+        default:
+          return tablesDB.createStringColumn(
+            databaseId,
+            tableId,
+            key,
+            column.size ?? 255,
+            required,
+            xdefault,
+            array,
+            column.encrypt,
+          );
+      }
+    case 'varchar':
+      return tablesDB.createVarcharColumn(
+        databaseId,
+        tableId,
+        key,
+        column.size ?? 255,
+        required,
+        xdefault,
+        array,
+      );
+    case 'text':
+      return tablesDB.createTextColumn(databaseId, tableId, key, required, xdefault, array);
+    case 'mediumtext':
+      return tablesDB.createMediumtextColumn(databaseId, tableId, key, required, xdefault, array);
+    case 'longtext':
+      return tablesDB.createLongtextColumn(databaseId, tableId, key, required, xdefault, array);
+    case 'integer':
+      return tablesDB.createIntegerColumn(
+        databaseId,
+        tableId,
+        key,
+        required,
+        column.min,
+        column.max,
+        xdefault,
+        array,
+      );
+    case 'double':
+      return tablesDB.createFloatColumn(
+        databaseId,
+        tableId,
+        key,
+        required,
+        column.min,
+        column.max,
+        xdefault,
+        array,
+      );
+    case 'boolean':
+      return tablesDB.createBooleanColumn(databaseId, tableId, key, required, xdefault, array);
+    case 'datetime':
+      return tablesDB.createDatetimeColumn(databaseId, tableId, key, required, xdefault, array);
+    case 'point':
+      return tablesDB.createPointColumn(databaseId, tableId, key, required, xdefault);
+    case 'linestring':
+      return tablesDB.createLineColumn(databaseId, tableId, key, required, xdefault);
+    case 'polygon':
+      return tablesDB.createPolygonColumn(databaseId, tableId, key, required, xdefault);
+    case 'relationship':
+      return tablesDB.createRelationshipColumn(
+        databaseId,
+        tableId,
+        column.relatedTable!,
+        column.relationType as RelationshipType,
+        column.twoWay,
+        key,
+        column.twoWayKey,
+        column.onDelete as RelationMutate,
+      );
+    default:
+      throw new SchemaPushError(`Unsupported column type '${column.type}' for ${tableId}.${key}.`);
+  }
+};
+
+const updateColumn = async (tablesDB: TablesDB, table: Table, column: Column): Promise<unknown> => {
+  const { databaseId, $id: tableId } = table;
+  const { key, required = false } = column;
+  // Updates require the default explicitly; null clears it.
+  const xdefault = (column.default ?? null) as any;
+
+  switch (column.type) {
+    case 'string':
+      switch (column.format) {
+        case 'email':
+          return tablesDB.updateEmailColumn(databaseId, tableId, key, required, xdefault);
+        case 'url':
+          return tablesDB.updateUrlColumn(databaseId, tableId, key, required, xdefault);
+        case 'ip':
+          return tablesDB.updateIpColumn(databaseId, tableId, key, required, xdefault);
+        case 'enum':
+          return tablesDB.updateEnumColumn(
+            databaseId,
+            tableId,
+            key,
+            column.elements ?? [],
+            required,
+            xdefault,
+          );
+        default:
+          return tablesDB.updateStringColumn(
+            databaseId,
+            tableId,
+            key,
+            required,
+            xdefault,
+            column.size,
+          );
+      }
+    case 'varchar':
+      return tablesDB.updateVarcharColumn(
+        databaseId,
+        tableId,
+        key,
+        required,
+        xdefault,
+        column.size,
+      );
+    case 'text':
+      return tablesDB.updateTextColumn(databaseId, tableId, key, required, xdefault);
+    case 'mediumtext':
+      return tablesDB.updateMediumtextColumn(databaseId, tableId, key, required, xdefault);
+    case 'longtext':
+      return tablesDB.updateLongtextColumn(databaseId, tableId, key, required, xdefault);
+    case 'integer':
+      return tablesDB.updateIntegerColumn(
+        databaseId,
+        tableId,
+        key,
+        required,
+        xdefault,
+        column.min,
+        column.max,
+      );
+    case 'double':
+      return tablesDB.updateFloatColumn(
+        databaseId,
+        tableId,
+        key,
+        required,
+        xdefault,
+        column.min,
+        column.max,
+      );
+    case 'boolean':
+      return tablesDB.updateBooleanColumn(databaseId, tableId, key, required, xdefault);
+    case 'datetime':
+      return tablesDB.updateDatetimeColumn(databaseId, tableId, key, required, xdefault);
+    case 'point':
+      return tablesDB.updatePointColumn(databaseId, tableId, key, required, xdefault);
+    case 'linestring':
+      return tablesDB.updateLineColumn(databaseId, tableId, key, required, xdefault);
+    case 'polygon':
+      return tablesDB.updatePolygonColumn(databaseId, tableId, key, required, xdefault);
+    case 'relationship':
+      return tablesDB.updateRelationshipColumn(
+        databaseId,
+        tableId,
+        key,
+        column.onDelete as RelationMutate,
+      );
+    default:
+      throw new SchemaPushError(`Unsupported column type '${column.type}' for ${tableId}.${key}.`);
+  }
+};
+
+/**
+ * Execute a single step through the SDK.
+ */
+const runStep = async (
+  step: ApplyStep,
+  services: SchemaServices,
+  logger: OperationLogger,
+): Promise<void> => {
+  const { tablesDB, storage, teams, messaging } = services;
+
+  switch (step.type) {
+    case 'database': {
+      const { $id, name, enabled } = step.resource;
+      if (step.action === 'create') await tablesDB.create($id, name, enabled);
+      if (step.action === 'update') await tablesDB.update($id, name, enabled);
+      if (step.action === 'delete') await tablesDB.delete($id);
+      return;
+    }
+    case 'table': {
+      const { databaseId, $id, name, $permissions, rowSecurity, enabled } = step.resource;
+      if (step.action === 'create') {
+        await tablesDB.createTable(databaseId, $id, name, $permissions, rowSecurity, enabled);
+      }
+      if (step.action === 'update') {
+        await tablesDB.updateTable(databaseId, $id, name, $permissions, rowSecurity, enabled);
+      }
+      if (step.action === 'delete') await tablesDB.deleteTable(databaseId, $id);
+      return;
+    }
+    case 'column':
+    case 'relationship': {
+      const { table, resource: column } = step;
+      if (step.action === 'create') await createColumn(tablesDB, table, column);
+      if (step.action === 'update') await updateColumn(tablesDB, table, column);
+      if (step.action === 'delete') {
+        await tablesDB.deleteColumn(table.databaseId, table.$id, column.key);
+        await waitForRemoval(
+          () => tablesDB.getColumn(table.databaseId, table.$id, column.key),
+          `column ${column.key}`,
+          logger,
+        );
+      }
+      return;
+    }
+    case 'index': {
+      const { table, resource: index } = step;
+      if (step.action === 'delete') {
+        await tablesDB.deleteIndex(table.databaseId, table.$id, index.key);
+        await waitForRemoval(
+          () => tablesDB.getIndex(table.databaseId, table.$id, index.key),
+          `index ${index.key}`,
+          logger,
+        );
+        return;
+      }
+      // Appwrite rejects indexes over columns that are still being processed.
+      for (const column of index.columns.filter((column) => !column.startsWith('$'))) {
+        await waitForColumn(tablesDB, table.databaseId, table.$id, column, logger);
+      }
+      await tablesDB.createIndex(
+        table.databaseId,
+        table.$id,
+        index.key,
+        index.type as IndexType,
+        index.columns,
+        index.orders as OrderBy[],
+        index.lengths,
+      );
+      return;
+    }
+    case 'bucket': {
+      const bucket = step.resource;
+      if (step.action === 'delete') {
+        await storage.deleteBucket(bucket.$id);
+        return;
+      }
+      const method = step.action === 'create' ? storage.createBucket : storage.updateBucket;
+      await method.call(
+        storage,
+        bucket.$id,
+        bucket.name,
+        bucket.$permissions,
+        bucket.fileSecurity,
+        bucket.enabled,
+        bucket.maximumFileSize,
+        bucket.allowedFileExtensions,
+        bucket.compression as Compression,
+        bucket.encryption,
+        bucket.antivirus,
+      );
+      return;
+    }
+    case 'team': {
+      const { $id, name } = step.resource;
+      if (step.action === 'create') await teams.create($id, name);
+      if (step.action === 'update') await teams.updateName($id, name);
+      if (step.action === 'delete') await teams.delete($id);
+      return;
+    }
+    case 'topic': {
+      const { $id, name } = step.resource;
+      if (step.action === 'create') await messaging.createTopic($id, name);
+      if (step.action === 'update') await messaging.updateTopic($id, name);
+      if (step.action === 'delete') await messaging.deleteTopic($id);
+      return;
+    }
+  }
+};
+
+/**
+ * Execute an apply plan step by step. Stops at the first failure with a SchemaPushError that
+ * names the failed step; the steps before it stay applied.
+ */
+export const executeApplyPlan = async (
+  plan: ApplyStep[],
+  config: AppConfig,
+  logger: OperationLogger = consoleLogger,
+): Promise<void> => {
+  const services = createAppwriteClient(config, logger);
+
+  for (const [index, step] of plan.entries()) {
+    logger.info(`  [${index + 1}/${plan.length}] ${describeApplyStep(step)}`);
+    try {
+      await runStep(step, services, logger);
+    } catch (error: any) {
+      logger.error(`  ✗ Failed to ${describeApplyStep(step)}: ${error.message}`);
+      throw new SchemaPushError(
+        `Failed to ${describeApplyStep(step)} (step ${index + 1} of ${plan.length}; ` +
+          `${index} applied): ${error.message}`,
+        { cause: error },
+      );
+    }
+  }
+};
+
+/**
+ * Diff a snapshot file against the live project and apply the difference through the SDK.
+ */
+export const applySnapshot = async (
+  snapshotPath: string,
+  config: AppConfig,
+  logger: OperationLogger = consoleLogger,
+  options: ApplyPlanOptions = {},
+): Promise<ApplyResult> => {
+  const startedAt = Date.now();
+  const target = readSnapshot(snapshotPath);
+
+  logger.info('Comparing snapshot with the live schema...');
+  const live = await fetchSnapshot(config, logger);
+  const plan = planSchemaApply(live, target, config, options);
+
+  if (plan.length === 0) {
+    logger.info('Schema is up to date.');
+  } else {
+    logger.info(`Applying ${plan.length} schema changes...`);
+    await executeApplyPlan(plan, config, logger);
+    logger.success(`  ✓ ${plan.length} schema changes applied`);
+  }
+
+  return { steps: plan, durationMs: Date.now() - startedAt };
+};
+
+/**
+ * Push a snapshot file with the configured pusher.
+ */
+export const pushSchemaSnapshot = async (
+  snapshotPath: string,
+  config: AppConfig,
+  logger: OperationLogger = consoleLogger,
+  options: ApplyPlanOptions = {},
+): Promise<void> => {
+  if (config.pusher === 'cli') {
+    await configureClient(config, logger);
+    await pushSnapshot(snapshotPath, config, logger);
+    return;
+  }
+  await applySnapshot(snapshotPath, config, logger, options);
+};
@@ -1,78 +1,302 @@
-import { Client, Databases, Query } from 'node-appwrite';
+import { Client, Databases, ID, Messaging, Query, Storage, TablesDB, Teams } from 'node-appwrite';
 import { AppConfig } from './config.js';
+import { AppwriteCtlError } from './errors.js';
+import { consoleLogger } from './logger.js';
+import { wrapWithRetry } from './retry.js';
+import type {
+  MigrationRecord,
+  MigrationRecordDetails,
+  OperationLogger,
+  Snapshot,
+} from '../types/index.js';
+
+// Checkpoints are stored as JSON; keep them small (a cursor, a counter).
+const MAX_CHECKPOINT_LENGTH = 16384;
+
+// Tracking records are listed page by page, so the whole history is read.
+const HISTORY_PAGE_SIZE = 100;
 
 /**
  * Create Appwrite Client and Databases instance.
+ * Databases calls are retried on transient errors according to the configured retry policy.
  */
-export const createAppwriteClient = (config: AppConfig) => {
+export const createAppwriteClient = (
+  config: AppConfig,
+  logger: OperationLogger = consoleLogger,
+) => {
   const client = new Client()
     .setEndpoint(config.endpoint)
     .setProject(config.projectId)
     .setKey(config.apiKey);
 
-  const databases = new Databases(client);
+  const databases = wrapWithRetry(new Databases(client), config.retry, logger);
+  // Schema services, used to pull and apply snapshots.
+  const tablesDB = wrapWithRetry(new TablesDB(client), config.retry, logger);
+  const storage = wrapWithRetry(new Storage(client), config.retry, logger);
+  const teams = wrapWithRetry(new Teams(client), config.retry, logger);
+  const messaging = wrapWithRetry(new Messaging(client), config.retry, logger);
 
-  return { client, databases };
+  return { client, databases, tablesDB, storage, teams, messaging };
 };
 
 /**
- * Ensure the system database and migrations collection exist.
+ * Qualified keys (`databaseId/tableId`) of the tracking collections. Snapshot pushes never
+ * create, change or delete them, whatever the snapshot contains.
  */
-export const ensureMigrationCollection = async (databases: Databases, config: AppConfig) => {
-  // Ensure the system database exists.
+export const getTrackingTableKeys = (config: AppConfig): Set<string> =>
+  new Set(
+    [config.migrationCollectionId, config.lockCollectionId, config.checkpointCollectionId].map(
+      (id) => `${config.database}/${id}`,
+    ),
+  );
+
+/**
+ * Remove the tracking database and collections from a snapshot, so that a comparison only
+ * covers what a push manages.
+ */
+export const withoutTrackingResources = (snapshot: Snapshot, config: AppConfig): Snapshot => {
+  const trackingTables = getTrackingTableKeys(config);
+  return {
+    ...snapshot,
+    tablesDB: snapshot.tablesDB.filter((database) => database.$id !== config.database),
+    tables: snapshot.tables.filter(
+      (table) => !trackingTables.has(`${table.databaseId}/${table.$id}`),
+    ),
+  };
+};
+
+/**
+ * Run a create call, treating a 409 as success: another run created the resource meanwhile.
+ */
+const createIfMissing = async (create: () => Promise<unknown>): Promise<void> => {
   try {
-    await databases.get(config.database);
+    await create();
   } catch (error: any) {
-    if (error.code === 404) {
-      console.log(`Creating system database '${config.database}'...`);
-      await databases.create(config.database, config.database);
-    } else {
-      throw error;
-    }
+    if (error.code !== 409) throw error;
   }
+};
 
-  // Ensure the migration collection exists within the system database.
+/**
+ * Ensure a collection of the system database exists.
+ */
+const ensureCollection = async (
+  databases: Databases,
+  config: AppConfig,
+  collectionId: string,
+  label: string,
+  logger: OperationLogger,
+) => {
   try {
-    await databases.getCollection(config.database, config.migrationCollectionId);
+    await databases.getCollection(config.database, collectionId);
   } catch (error: any) {
-    if (error.code === 404) {
-      console.log(`Creating migration collection '${config.migrationCollectionId}'...`);
-      await databases.createCollection(
-        config.database,
-        config.migrationCollectionId,
-        config.migrationCollectionId,
-      );
-      await databases.createStringAttribute(
-        config.database,
-        config.migrationCollectionId,
-        'name',
-        255,
-        true,
-      );
-      await databases.createDatetimeAttribute(
-        config.database,
-        config.migrationCollectionId,
-        'appliedAt',
-        true,
-      );
-    } else {
-      throw error;
+    if (error.code !== 404) throw error;
+    logger.info(`Creating ${label} collection '${collectionId}'...`);
+    await createIfMissing(() =>
+      databases.createCollection(config.database, collectionId, collectionId),
+    );
+  }
+};
+
+/**
+ * Create the attributes a tracking collection is missing and wait until every attribute is
+ * available, so documents can be written to it right away. Another run may be creating the same
+ * attributes, so those that already exist are skipped.
+ */
+const ensureAttributes = async (
+  databases: Databases,
+  databaseId: string,
+  collectionId: string,
+  attributes: Record<string, () => Promise<unknown>>,
+  logger: OperationLogger,
+) => {
+  const { attributes: existing } = await databases.listAttributes(databaseId, collectionId);
+  const existingKeys = new Set(existing.map((attr: any) => attr.key));
+  const missing = Object.keys(attributes).filter((key) => !existingKeys.has(key));
+
+  if (missing.length > 0) {
+    logger.info(`Adding attributes to '${collectionId}': ${missing.join(', ')}...`);
+    for (const key of missing) {
+      await createIfMissing(attributes[key]);
     }
   }
+  if (missing.length > 0 || existing.some((attr: any) => attr.status !== 'available')) {
+    await waitForCollectionAttributes(databases, databaseId, collectionId);
+  }
 };
 
 /**
- * Get list of applied migration IDs.
+ * Ensure the system database and migrations collection exist.
+ * Several runs may start on a fresh project at once, so resources another run created meanwhile
+ * are accepted as they are.
  */
-export const getAppliedMigrations = async (
+export const ensureMigrationCollection = async (
   databases: Databases,
   config: AppConfig,
-): Promise<string[]> => {
+  logger: OperationLogger = consoleLogger,
+) => {
+  // Ensure the system database exists.
+  try {
+    await databases.get(config.database);
+  } catch (error: any) {
+    if (error.code !== 404) throw error;
+    logger.info(`Creating system database '${config.database}'...`);
+    await createIfMissing(() => databases.create(config.database, config.database));
+  }
+
+  await ensureCollection(databases, config, config.migrationCollectionId, 'migration', logger);
+  await ensureHistoryAttributes(databases, config, logger);
+  await ensureLockCollection(databases, config, logger);
+  await ensureCheckpointCollection(databases, config, logger);
+};
+
+/**
+ * Ensure the attributes of the migration collection, including the run history attributes.
+ * Collections created by older versions only have `name` and `appliedAt`; missing attributes are
+ * added as optional so existing records are kept. Those records have no `migrationId`, as their
+ * document ID is the migration ID.
+ */
+const ensureHistoryAttributes = async (
+  databases: Databases,
+  config: AppConfig,
+  logger: OperationLogger,
+) => {
+  const db = config.database;
+  const collection = config.migrationCollectionId;
+
+  await ensureAttributes(
+    databases,
+    db,
+    collection,
+    {
+      name: () => databases.createStringAttribute(db, collection, 'name', 255, true),
+      appliedAt: () => databases.createDatetimeAttribute(db, collection, 'appliedAt', true),
+      migrationId: () => databases.createStringAttribute(db, collection, 'migrationId', 255, false),
+      status: () => databases.createStringAttribute(db, collection, 'status', 16, false),
+      durationMs: () => databases.createIntegerAttribute(db, collection, 'durationMs', false),
+      executedBy: () => databases.createStringAttribute(db, collection, 'executedBy', 255, false),
+      toolVersion: () => databases.createStringAttribute(db, collection, 'toolVersion', 32, false),
+      checksum: () => databases.createStringAttribute(db, collection, 'checksum', 64, false),
+      error: () => databases.createStringAttribute(db, collection, 'error', 4096, false),
+      source: () => databases.createStringAttribute(db, collection, 'source', 16, false),
+    },
+    logger,
+  );
+};
+
+/**
+ * Wait until every attribute of a new or extended collection is available.
+ */
+const waitForCollectionAttributes = async (
+  databases: Databases,
+  databaseId: string,
+  collectionId: string,
+) => {
+  const MAX_ATTEMPTS = 30; // 30 × 1 s
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const { attributes } = await databases.listAttributes(databaseId, collectionId);
+    if (attributes.every((attr: any) => attr.status === 'available')) return;
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+
+  throw new AppwriteCtlError(`Timed out waiting for attributes of collection '${collectionId}'.`);
+};
+
+/**
+ * Ensure the collection holding the migration lock exists within the system database.
+ */
+export const ensureLockCollection = async (
+  databases: Databases,
+  config: AppConfig,
+  logger: OperationLogger = consoleLogger,
+) => {
+  const db = config.database;
+  const collection = config.lockCollectionId;
+
+  await ensureCollection(databases, config, collection, 'lock', logger);
+  await ensureAttributes(
+    databases,
+    db,
+    collection,
+    {
+      holder: () => databases.createStringAttribute(db, collection, 'holder', 255, true),
+      acquiredAt: () => databases.createDatetimeAttribute(db, collection, 'acquiredAt', true),
+      heartbeatAt: () => databases.createDatetimeAttribute(db, collection, 'heartbeatAt', true),
+      ttl: () => databases.createIntegerAttribute(db, collection, 'ttl', true),
+    },
+    logger,
+  );
+};
+
+/**
+ * Ensure the collection holding the checkpoints of interrupted migrations exists within the
+ * system database.
+ */
+const ensureCheckpointCollection = async (
+  databases: Databases,
+  config: AppConfig,
+  logger: OperationLogger,
+) => {
+  const db = config.database;
+  const collection = config.checkpointCollectionId;
+
+  await ensureCollection(databases, config, collection, 'checkpoint', logger);
+  await ensureAttributes(
+    databases,
+    db,
+    collection,
+    {
+      value: () =>
+        databases.createStringAttribute(db, collection, 'value', MAX_CHECKPOINT_LENGTH, true),
+      updatedAt: () => databases.createDatetimeAttribute(db, collection, 'updatedAt', true),
+    },
+    logger,
+  );
+};
+
+/**
+ * Whether a tracking record counts as applied.
+ * Records without a status were written before run history was tracked.
+ */
+export const isMigrationApplied = (record: MigrationRecord): boolean =>
+  !record.status || record.status === 'succeeded';
+
+const toMigrationRecord = (doc: any): MigrationRecord => ({
+  // Records written before the history was append-only use the migration ID as document ID.
+  id: doc.migrationId ?? doc.$id,
+  name: doc.name,
+  appliedAt: doc.appliedAt,
+  status: doc.status ?? undefined,
+  durationMs: doc.durationMs ?? undefined,
+  executedBy: doc.executedBy ?? undefined,
+  toolVersion: doc.toolVersion ?? undefined,
+  checksum: doc.checksum ?? undefined,
+  error: doc.error ?? undefined,
+  source: doc.source ?? undefined,
+});
+
+/**
+ * Get the tracking records of every migration run and status change, most recent first.
+ * Records are ordered by `$sequence`, which the server assigns in write order: `appliedAt` comes
+ * from the clock of the machine that wrote the record, so it may be out of order.
+ */
+export const getMigrationHistory = async (
+  databases: Databases,
+  config: AppConfig,
+): Promise<MigrationRecord[]> => {
+  const documents: any[] = [];
   try {
-    const response = await databases.listDocuments(config.database, config.migrationCollectionId, [
-      Query.limit(5000),
-    ]);
-    return response.documents.map((doc) => doc.$id);
+    while (true) {
+      const cursor =
+        documents.length > 0 ? [Query.cursorAfter(documents[documents.length - 1].$id)] : [];
+      const { documents: page } = await databases.listDocuments(
+        config.database,
+        config.migrationCollectionId,
+        [Query.orderDesc('$sequence'), Query.limit(HISTORY_PAGE_SIZE), ...cursor],
+      );
+      documents.push(...page);
+      if (page.length < HISTORY_PAGE_SIZE) break;
+    }
   } catch (error: any) {
     if (error.code === 404) {
       // If DB or Collection unavailable, no migrations applied.
@@ -80,19 +304,132 @@ export const getAppliedMigrations = async (
     }
     throw error;
   }
+  return documents.map(toMigrationRecord);
+};
+
+/**
+ * Get the newest tracking record of each migration, which holds its current state.
+ */
+export const getLatestMigrationRecords = async (
+  databases: Databases,
+  config: AppConfig,
+): Promise<Map<string, MigrationRecord>> => {
+  const latest = new Map<string, MigrationRecord>();
+  for (const record of await getMigrationHistory(databases, config)) {
+    if (!latest.has(record.id)) latest.set(record.id, record);
+  }
+  return latest;
+};
+
+/**
+ * Get list of applied migration IDs.
+ * Runs that are still in progress or failed do not count as applied.
+ */
+export const getAppliedMigrations = async (
+  databases: Databases,
+  config: AppConfig,
+): Promise<string[]> => {
+  const latest = await getLatestMigrationRecords(databases, config);
+  return [...latest.values()].filter(isMigrationApplied).map((record) => record.id);
 };
 
 /**
- * Record a successfully applied migration.
+ * Record a state of a migration: a run starting, succeeding or failing, a rollback, or a change
+ * by hand. Each call adds a record, so earlier runs stay in the history; the newest record of a
+ * migration holds its current state.
+ * Without details the migration is recorded as successfully applied.
  */
 export const recordMigration = async (
   databases: Databases,
   config: AppConfig,
   migrationId: string,
   name: string,
+  details: MigrationRecordDetails = {},
 ) => {
-  await databases.createDocument(config.database, config.migrationCollectionId, migrationId, {
+  const data = {
+    migrationId,
     name,
     appliedAt: new Date().toISOString(),
-  });
+    status: 'succeeded',
+    ...details,
+    error: details.error ? details.error.slice(0, 4096) : null,
+  };
+
+  await databases.createDocument(config.database, config.migrationCollectionId, ID.unique(), data);
+
+  // A completed or rolled back migration never resumes, so its checkpoint is obsolete.
+  if (data.status === 'succeeded' || data.status === 'rolled-back') {
+    await clearCheckpoint(databases, config, migrationId);
+  }
+};
+
+/**
+ * Read the checkpoint saved by an interrupted run of a migration, or null if there is none.
+ */
+export const getCheckpoint = async <T = unknown>(
+  databases: Databases,
+  config: AppConfig,
+  migrationId: string,
+): Promise<T | null> => {
+  try {
+    const doc: any = await databases.getDocument(
+      config.database,
+      config.checkpointCollectionId,
+      migrationId,
+    );
+    return JSON.parse(doc.value) as T;
+  } catch (error: any) {
+    if (error.code === 404) return null;
+    throw error;
+  }
+};
+
+/**
+ * Persist the progress of a running migration so a re-run can resume from it.
+ */
+export const saveCheckpoint = async (
+  databases: Databases,
+  config: AppConfig,
+  migrationId: string,
+  value: unknown,
+) => {
+  const serialized = JSON.stringify(value);
+  if (serialized === undefined || serialized.length > MAX_CHECKPOINT_LENGTH) {
+    throw new AppwriteCtlError(
+      `Checkpoint must be JSON-serializable and at most ${MAX_CHECKPOINT_LENGTH} characters.`,
+    );
+  }
+
+  const data = { value: serialized, updatedAt: new Date().toISOString() };
+  try {
+    await databases.createDocument(
+      config.database,
+      config.checkpointCollectionId,
+      migrationId,
+      data,
+    );
+  } catch (error: any) {
+    if (error.code !== 409) throw error;
+    await databases.updateDocument(
+      config.database,
+      config.checkpointCollectionId,
+      migrationId,
+      data,
+    );
+  }
+};
+
+/**
+ * Delete the checkpoint of a migration, if any.
+ */
+export const clearCheckpoint = async (
+  databases: Databases,
+  config: AppConfig,
+  migrationId: string,
+) => {
+  try {
+    await databases.deleteDocument(config.database, config.checkpointCollectionId, migrationId);
+  } catch (error: any) {
+    if (error.code !== 404) throw error;
+  }
 };
@@ -0,0 +1,168 @@
+import { Databases, Models, Query } from 'node-appwrite';
+import type {
+  BulkHelpers,
+  BulkOptions,
+  BulkResult,
+  DocumentTransform,
+  Logger,
+} from '../types/index.js';
+
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_CONCURRENCY = 10;
+
+/**
+ * Run `task` for every item, with at most `concurrency` tasks in flight.
+ */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+};
+
+/**
+ * Create the bulk data helpers exposed as `context.bulk`.
+ *
+ * Every helper pages through the collection with `Query.cursorAfter`, so no document is missed
+ * however large the collection is, and reports progress through `log` after each page.
+ */
+export const createBulkHelpers = (databases: Databases, log: Logger): BulkHelpers => {
+  async function* iterate(
+    databaseId: string,
+    collectionId: string,
+    queries: string[] = [],
+    options: Pick<BulkOptions, 'pageSize' | 'after'> = {},
+  ): AsyncGenerator<Models.DefaultDocument> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    let cursor = options.after;
+
+    while (true) {
+      const page = await databases.listDocuments(
+        databaseId,
+        collectionId,
+        [...queries, Query.limit(pageSize), ...(cursor ? [Query.cursorAfter(cursor)] : [])],
+        undefined,
+        false, // Skip counting the total: it gets slow on large collections.
+      );
+      yield* page.documents;
+
+      if (page.documents.length < pageSize) return;
+      cursor = page.documents[page.documents.length - 1].$id;
+    }
+  }
+
+  /**
+   * Collect the documents of one page at a time so they can be processed concurrently.
+   */
+  async function* pages(
+    databaseId: string,
+    collectionId: string,
+    options: BulkOptions,
+  ): AsyncGenerator<Models.DefaultDocument[]> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    let page: Models.DefaultDocument[] = [];
+
+    for await (const document of iterate(databaseId, collectionId, options.queries, options)) {
+      page.push(document);
+      if (page.length === pageSize) {
+        yield page;
+        page = [];
+      }
+    }
+    if (page.length > 0) yield page;
+  }
+
+  const forEach = async (
+    databaseId: string,
+    collectionId: string,
+    task: (document: Models.DefaultDocument) => Promise<void>,
+    options: BulkOptions = {},
+  ): Promise<BulkResult> => {
+    const result: BulkResult = { processed: 0, changed: 0 };
+
+    for await (const page of pages(databaseId, collectionId, options)) {
+      await mapWithConcurrency(page, options.concurrency ?? DEFAULT_CONCURRENCY, task);
+      result.processed += page.length;
+      log(`${collectionId}: processed ${result.processed} documents`);
+      await options.onPage?.(page[page.length - 1].$id);
+    }
+
+    return result;
+  };
+
+  const updateAll = async (
+    databaseId: string,
+    collectionId: string,
+    transform: DocumentTransform,
+    options: BulkOptions = {},
+  ): Promise<BulkResult> => {
+    const result: BulkResult = { processed: 0, changed: 0 };
+
+    for await (const page of pages(databaseId, collectionId, options)) {
+      const updated = await mapWithConcurrency(
+        page,
+        options.concurrency ?? DEFAULT_CONCURRENCY,
+        async (document) => {
+          const data = await transform(document);
+          if (!data) return false;
+          await databases.updateDocument(databaseId, collectionId, document.$id, data);
+          return true;
+        },
+      );
+
+      result.processed += page.length;
+      result.changed += updated.filter(Boolean).length;
+      log(`${collectionId}: processed ${result.processed} documents, updated ${result.changed}`);
+      await options.onPage?.(page[page.length - 1].$id);
+    }
+
+    return result;
+  };
+
+  const deleteAll = async (
+    databaseId: string,
+    collectionId: string,
+    options: BulkOptions = {},
+  ): Promise<BulkResult> => {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const queries = options.queries ?? [];
+    const result: BulkResult = { processed: 0, changed: 0 };
+
+    // Deleting invalidates the cursor, so always read the first page of what is left.
+    while (true) {
+      const page = await databases.listDocuments(
+        databaseId,
+        collectionId,
+        [...queries, Query.select(['$id']), Query.limit(pageSize)],
+        undefined,
+        false,
+      );
+      if (page.documents.length === 0) break;
+
+      const ids = page.documents.map((document) => document.$id);
+      await databases.deleteDocuments(databaseId, collectionId, [Query.equal('$id', ids)]);
+
+      result.processed += ids.length;
+      result.changed += ids.length;
+      log(`${collectionId}: deleted ${result.changed} documents`);
+
+      if (ids.length < pageSize) break;
+    }
+
+    return result;
+  };
+
+  return { iterate, forEach, updateAll, deleteAll };
+};
@@ -0,0 +1,20 @@
+import { Databases } from 'node-appwrite';
+import { AppConfig } from './config.js';
+import { getCheckpoint, saveCheckpoint, clearCheckpoint } from './appwrite.js';
+import type { MigrationCheckpoint } from '../types/index.js';
+
+/**
+ * Create the checkpoint store exposed as `context.checkpoint`.
+ *
+ * The checkpoint is keyed by migration ID, so a re-run after a failure reads what the failed
+ * attempt saved. It is cleared once the migration is recorded as succeeded or rolled back.
+ */
+export const createCheckpointStore = (
+  databases: Databases,
+  config: AppConfig,
+  migrationId: string,
+): MigrationCheckpoint => ({
+  get: <T = unknown>() => getCheckpoint<T>(databases, config, migrationId),
+  set: (value) => saveCheckpoint(databases, config, migrationId, value),
+  clear: () => clearCheckpoint(databases, config, migrationId),
+});
@@ -1,9 +1,13 @@
 import { exec, execFile as _execFile } from 'child_process';
 import { promisify } from 'util';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import chalk from 'chalk';
 import { AppConfig } from './config.js';
+import { AppwriteCtlError, SchemaPullError, SchemaPushError } from './errors.js';
+import { consoleLogger } from './logger.js';
+import { SCHEMA_RESOURCES, SchemaResource, scopeSnapshot } from './scope.js';
+import type { OperationLogger, Snapshot } from '../types/index.js';
 
 const execAsync = promisify(exec);
 const execFileAsync = promisify(_execFile);
@@ -13,7 +17,10 @@ const SNAPSHOT_FILENAME = 'appwrite.config.json';
 /**
  * Configure the Appwrite CLI client for non-interactive use via API key.
  */
-export const configureClient = async (config: AppConfig): Promise<void> => {
+export const configureClient = async (
+  config: AppConfig,
+  logger: OperationLogger = consoleLogger,
+): Promise<void> => {
   // Use execFile (not exec) to pass each argument separately — prevents command injection
   // if endpoint / projectId / apiKey contain shell-special characters.
   const args = [
@@ -28,17 +35,38 @@ export const configureClient = async (config: AppConfig): Promise<void> => {
 
   try {
     await execFileAsync('appwrite', args);
-    console.log(chalk.green('Appwrite CLI configured successfully.'));
+    logger.success('Appwrite CLI configured successfully.');
   } catch (error: any) {
-    throw new Error(
+    throw new AppwriteCtlError(
       `Failed to configure Appwrite CLI: ${error.message}. Ensure 'appwrite-cli' is installed.`,
       { cause: error },
     );
   }
 };
 
-// Resource types to sync (excludes 'settings' which requires interactive login).
-const RESOURCES = ['tables', 'buckets', 'teams', 'topics'];
+/**
+ * Run `appwrite pull <resource>` for every synced resource type inside `cwd`.
+ * Stops at the first failure, so a partial snapshot is never used.
+ */
+const pullResources = async (
+  cwd: string,
+  logger: OperationLogger,
+  resources: SchemaResource[],
+): Promise<void> => {
+  // 'settings' is never synced, since it requires an interactive login.
+  for (const resource of resources) {
+    logger.info(`Pulling ${resource}...`);
+    try {
+      await execAsync(`appwrite pull ${resource}`, { cwd, timeout: 120_000 });
+      logger.success(`  ✓ ${resource}`);
+    } catch (error: any) {
+      logger.error(`  ✗ Failed to pull ${resource}: ${error.message}`);
+      throw new SchemaPullError(`Failed to pull ${resource}: ${error.message}`, {
+        cause: error,
+      });
+    }
+  }
+};
 
 /**
  * Pull a full snapshot from Appwrite into a target directory.
@@ -47,22 +75,18 @@ const RESOURCES = ['tables', 'buckets', 'teams', 'topics'];
  * The operation works in the project root (where appwrite.config.json lives).
  * If a targetDir is provided, it copies the resulting file to the target directory and cleans up the root.
  */
-export const pullSnapshot = async (targetDir?: string): Promise<string> => {
+export const pullSnapshot = async (
+  targetDir?: string,
+  logger: OperationLogger = consoleLogger,
+  resources: SchemaResource[] = SCHEMA_RESOURCES,
+): Promise<string> => {
   const rootDir = process.cwd();
   const rootConfig = path.join(rootDir, SNAPSHOT_FILENAME);
 
-  for (const resource of RESOURCES) {
-    console.log(chalk.blue(`Pulling ${resource}...`));
-    try {
-      await execAsync(`appwrite pull ${resource}`, { cwd: rootDir, timeout: 120_000 });
-      console.log(chalk.green(`  ✓ ${resource}`));
-    } catch (error: any) {
-      console.warn(chalk.yellow(`  ⚠ Failed to pull ${resource}: ${error.message}`));
-    }
-  }
+  await pullResources(rootDir, logger, resources);
 
   if (!fs.existsSync(rootConfig)) {
-    throw new Error(
+    throw new SchemaPullError(
       `appwrite.config.json not found at project root after pull. ` +
         `Ensure the CLI is configured correctly.`,
     );
@@ -72,17 +96,57 @@ export const pullSnapshot = async (targetDir?: string): Promise<string> => {
     // Copy the updated root config into the target version directory
     const targetPath = path.join(targetDir, SNAPSHOT_FILENAME);
     fs.copyFileSync(rootConfig, targetPath);
-    console.log(chalk.green(`Snapshot saved to ${targetPath}`));
+    logger.success(`Snapshot saved to ${targetPath}`);
 
     // Cleanup: Remove the root appwrite.config.json created by the pull command.
     fs.unlinkSync(rootConfig);
     return targetPath;
   }
 
-  console.log(chalk.green(`Snapshot saved to ${rootConfig}`));
+  logger.success(`Snapshot saved to ${rootConfig}`);
   return rootConfig;
 };
 
+/**
+ * Pull the live schema from Appwrite and return it without writing anything to the project.
+ * The CLI runs inside a temporary directory that is removed afterwards.
+ */
+export const pullLiveSnapshot = async (
+  logger: OperationLogger = consoleLogger,
+  resources: SchemaResource[] = SCHEMA_RESOURCES,
+): Promise<Snapshot> => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'appwrite-ctl-'));
+
+  try {
+    await pullResources(tempDir, logger, resources);
+
+    const tempConfig = path.join(tempDir, SNAPSHOT_FILENAME);
+    if (!fs.existsSync(tempConfig)) {
+      throw new SchemaPullError(
+        `appwrite.config.json not found after pull. Ensure the CLI is configured correctly.`,
+      );
+    }
+    return readSnapshot(tempConfig);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Read a snapshot file, defaulting missing resource lists to empty arrays.
+ */
+export const readSnapshot = (snapshotPath: string): Snapshot => {
+  const data = JSON.parse(fs.readFileSync(snapshotPath, 'utf8'));
+  return {
+    ...data,
+    tablesDB: data.tablesDB ?? [],
+    tables: data.tables ?? [],
+    buckets: data.buckets ?? [],
+    teams: data.teams ?? [],
+    topics: data.topics ?? [],
+  };
+};
+
 /**
  * Push a snapshot from a version directory to the Appwrite project.
  * Copies the version's appwrite.config.json to the project root,
@@ -93,12 +157,16 @@ export const pullSnapshot = async (targetDir?: string): Promise<string> => {
  *
  * `--all` auto-selects all resources, `--force` auto-confirms changes.
  */
-export const pushSnapshot = async (snapshotPath: string, config: AppConfig): Promise<void> => {
+export const pushSnapshot = async (
+  snapshotPath: string,
+  config: AppConfig,
+  logger: OperationLogger = consoleLogger,
+): Promise<void> => {
   const rootDir = process.cwd();
   const rootConfig = path.join(rootDir, SNAPSHOT_FILENAME);
 
   if (!fs.existsSync(snapshotPath)) {
-    throw new Error(`Snapshot not found: ${snapshotPath}`);
+    throw new SchemaPushError(`Snapshot not found: ${snapshotPath}`);
   }
 
   // Backup current root config before overwriting.
@@ -108,32 +176,35 @@ export const pushSnapshot = async (snapshotPath: string, config: AppConfig): Pro
     fs.copyFileSync(rootConfig, backupPath);
   }
 
-  // Copy snapshot to root and rewrite projectId to match current environment.
-  const snapshotData = JSON.parse(fs.readFileSync(snapshotPath, 'utf8'));
+  // Copy snapshot to root, restricted to the resource scope, and rewrite projectId to match
+  // current environment.
+  const snapshotData = scopeSnapshot(readSnapshot(snapshotPath), config.scope);
   snapshotData.projectId = config.projectId;
   fs.writeFileSync(rootConfig, JSON.stringify(snapshotData, null, 2));
-  console.log(chalk.blue(`Snapshot copied to project root (projectId: ${config.projectId}).`));
+  logger.info(`Snapshot copied to project root (projectId: ${config.projectId}).`);
 
   try {
-    for (const resource of RESOURCES) {
-      console.log(chalk.blue(`Pushing ${resource}...`));
+    for (const resource of config.scope.resources) {
+      logger.info(`Pushing ${resource}...`);
       try {
         const extraFlags = resource === 'tables' ? '--attempts 60' : '';
         await execAsync(`appwrite push ${resource} --all --force ${extraFlags}`.trim(), {
           cwd: rootDir,
           timeout: 300_000,
         });
-        console.log(chalk.green(`  ✓ ${resource}`));
+        logger.success(`  ✓ ${resource}`);
       } catch (error: any) {
-        console.error(chalk.red(`  ✗ Failed to push ${resource}: ${error.message}`));
-        throw error;
+        logger.error(`  ✗ Failed to push ${resource}: ${error.message}`);
+        throw new SchemaPushError(`Failed to push ${resource}: ${error.message}`, {
+          cause: error,
+        });
       }
     }
   } catch (error) {
     // Restore backup if push fails.
     if (originalExists && fs.existsSync(backupPath)) {
       fs.copyFileSync(backupPath, rootConfig);
-      console.log(chalk.yellow('Root config restored from backup after push failure.'));
+      logger.warn('Root config restored from backup after push failure.');
     }
     throw error;
   } finally {
@@ -1,30 +1,251 @@
 import dotenv from 'dotenv';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
+import { ConfigError } from './errors.js';
+import { consoleLogger } from './logger.js';
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from './retry.js';
+import { parseResourceScope, ResourceScope } from './scope.js';
+import type { SchemaPusher } from './apply.js';
+import type { SchemaPuller } from './puller.js';
+import type { HookName, OperationLogger } from '../types/index.js';
 
 export interface AppConfig {
   endpoint: string;
   projectId: string;
   apiKey: string;
   migrationCollectionId: string;
+  lockCollectionId: string;
+  checkpointCollectionId: string;
   database: string;
+  /** Hook module paths per lifecycle point, relative to the project root. */
+  hooks: Partial<Record<HookName, string[]>>;
+  /** Retry policy applied to every Appwrite SDK call, including those of migration scripts. */
+  retry: RetryPolicy;
+  /** How the live schema is pulled. */
+  puller: SchemaPuller;
+  /** How snapshots are pushed. */
+  pusher: SchemaPusher;
+  /** Resource types and IDs that are pulled, pushed, documented and diffed. */
+  scope: ResourceScope;
+  /** Name of the environment selected with `--target`, if any. */
+  target?: string;
+  /** Whether the selected environment is marked as production. */
+  production: boolean;
 }
 
+/**
+ * One entry of the `environments` section of appwrite-ctl.config.json. Every field is optional
+ * and falls back to the `APPWRITE_*` variables and the top-level settings.
+ */
+export interface EnvironmentConfig {
+  endpoint?: string;
+  projectId?: string;
+  /** Name of the environment variable holding the API key. */
+  apiKeyEnv?: string;
+  /** Path of a file containing the API key, relative to the project root. `~` is expanded. */
+  apiKeyFile?: string;
+  database?: string;
+  collection?: string;
+  lockCollection?: string;
+  checkpointCollection?: string;
+  /** Require an explicit confirmation before changing this environment. */
+  production?: boolean;
+}
+
+/**
+ * Options shared by every operation that connects to Appwrite.
+ */
+export interface TargetOptions {
+  /** Named environment from appwrite-ctl.config.json. Defaults to the `APPWRITE_*` variables. */
+  target?: string;
+}
+
+/**
+ * Options shared by every operation that reports progress.
+ */
+export interface LoggerOptions {
+  /** Receives progress output. Defaults to the console. */
+  logger?: OperationLogger;
+}
+
+const HOOK_NAMES: HookName[] = [
+  'beforeAll',
+  'afterPush',
+  'beforeUp',
+  'afterUp',
+  'afterAll',
+  'onError',
+];
+
+/**
+ * Merge the `retry` section of appwrite-ctl.config.json over the default policy.
+ */
+const parseRetryPolicy = (value: unknown): RetryPolicy => {
+  if (value === undefined) return DEFAULT_RETRY_POLICY;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ConfigError('"retry" in appwrite-ctl.config.json must be an object.');
+  }
+
+  const policy = { ...DEFAULT_RETRY_POLICY, ...value } as RetryPolicy;
+  const isCount = (n: unknown) => Number.isInteger(n) && (n as number) >= 0;
+  if (!isCount(policy.attempts) || policy.attempts < 1) {
+    throw new ConfigError('"retry.attempts" must be a positive integer.');
+  }
+  if (!isCount(policy.baseDelayMs) || !isCount(policy.maxDelayMs)) {
+    throw new ConfigError('"retry.baseDelayMs" and "retry.maxDelayMs" must be integers >= 0.');
+  }
+  if (!Array.isArray(policy.retryableCodes) || !policy.retryableCodes.every(isCount)) {
+    throw new ConfigError('"retry.retryableCodes" must be a list of HTTP status codes.');
+  }
+  return policy;
+};
+
+/**
+ * Validate the `puller` or `pusher` setting of appwrite-ctl.config.json.
+ */
+const parseSchemaEngine = (key: 'puller' | 'pusher', value: unknown): 'sdk' | 'cli' => {
+  if (value === undefined) return 'sdk';
+  if (value !== 'sdk' && value !== 'cli') {
+    throw new ConfigError(`"${key}" in appwrite-ctl.config.json must be "sdk" or "cli".`);
+  }
+  return value;
+};
+
+/**
+ * Normalize the `hooks` section of appwrite-ctl.config.json: each entry is a module path or a
+ * list of them.
+ */
+const parseHooks = (value: unknown): AppConfig['hooks'] => {
+  if (value === undefined) return {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ConfigError('"hooks" in appwrite-ctl.config.json must be an object.');
+  }
+
+  const hooks: AppConfig['hooks'] = {};
+  for (const [name, paths] of Object.entries(value)) {
+    if (!HOOK_NAMES.includes(name as HookName)) {
+      throw new ConfigError(
+        `Unknown hook '${name}' in appwrite-ctl.config.json. Expected one of: ${HOOK_NAMES.join(', ')}.`,
+      );
+    }
+    const list = Array.isArray(paths) ? paths : [paths];
+    if (list.some((entry) => typeof entry !== 'string')) {
+      throw new ConfigError(`Hook '${name}' must be a module path or a list of module paths.`);
+    }
+    hooks[name as HookName] = list;
+  }
+  return hooks;
+};
+
+/**
+ * Look up the `target` entry of the `environments` section of appwrite-ctl.config.json.
+ */
+const parseEnvironment = (value: unknown, target: string): EnvironmentConfig => {
+  if (value !== undefined && (!value || typeof value !== 'object' || Array.isArray(value))) {
+    throw new ConfigError('"environments" in appwrite-ctl.config.json must be an object.');
+  }
+
+  const environments = (value ?? {}) as Record<string, unknown>;
+  const environment = environments[target];
+  if (environment === undefined) {
+    const known = Object.keys(environments);
+    throw new ConfigError(
+      `Unknown target '${target}'. ` +
+        (known.length > 0
+          ? `Expected one of: ${known.join(', ')}.`
+          : 'No environments are defined in appwrite-ctl.config.json.'),
+    );
+  }
+  if (!environment || typeof environment !== 'object' || Array.isArray(environment)) {
+    throw new ConfigError(`Environment '${target}' in appwrite-ctl.config.json must be an object.`);
+  }
+  if ('apiKeyEnv' in environment && 'apiKeyFile' in environment) {
+    throw new ConfigError(
+      `Environment '${target}' must set either apiKeyEnv or apiKeyFile, not both.`,
+    );
+  }
+  return environment as EnvironmentConfig;
+};
+
+/**
+ * Read the API key of an environment from the variable or file it names. Environments without
+ * a key source use APPWRITE_API_KEY.
+ */
+const resolveApiKey = (environment: EnvironmentConfig, target: string): string | undefined => {
+  if (environment.apiKeyFile) {
+    const keyPath = environment.apiKeyFile.startsWith('~')
+      ? path.join(os.homedir(), environment.apiKeyFile.slice(1))
+      : path.resolve(process.cwd(), environment.apiKeyFile);
+    try {
+      return fs.readFileSync(keyPath, 'utf-8').trim();
+    } catch (error: any) {
+      throw new ConfigError(
+        `Could not read the API key of target '${target}' from ${keyPath}: ${error.message}`,
+        { cause: error },
+      );
+    }
+  }
+
+  const variable = environment.apiKeyEnv ?? 'APPWRITE_API_KEY';
+  const apiKey = process.env[variable]?.trim();
+  if (environment.apiKeyEnv && !apiKey) {
+    throw new ConfigError(
+      `Environment variable ${variable} (API key of target '${target}') is not set.`,
+    );
+  }
+  return apiKey;
+};
+
 /**
  * Load configuration from environment variables or .env file.
+ *
+ * With a `target`, the endpoint, project, API key and tracking collections come from that entry
+ * of the `environments` section of appwrite-ctl.config.json, falling back to the `APPWRITE_*`
+ * variables and top-level settings for anything it does not set.
  */
-export const loadConfig = (envPath: string = '.env'): AppConfig => {
+export const loadConfig = (
+  envPath: string = '.env',
+  logger: OperationLogger = consoleLogger,
+  target?: string,
+): AppConfig => {
   // Load environment variables.
   dotenv.config({ path: path.resolve(process.cwd(), envPath), override: true });
 
+  // Find root directory.
+  const rootDir = process.cwd();
+  const configPath = path.join(rootDir, 'appwrite', 'appwrite-ctl.config.json');
+
+  let fileConfig: any = {};
+  if (fs.existsSync(configPath)) {
+    try {
+      fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    } catch (error) {
+      // A target cannot be resolved without the file, so defaults are not good enough.
+      if (target) {
+        throw new ConfigError('Could not parse appwrite-ctl.config.json.', { cause: error });
+      }
+      logger.warn('Could not parse appwrite-ctl.config.json, using defaults.');
+    }
+  } else if (target) {
+    throw new ConfigError(
+      `Unknown target '${target}': appwrite/appwrite-ctl.config.json does not exist.`,
+    );
+  }
+
+  const environment = target ? parseEnvironment(fileConfig.environments, target) : {};
+
   // Trim values to avoid copy-paste whitespace bugs in .env files.
-  const endpoint = process.env.APPWRITE_ENDPOINT?.trim();
-  const projectId = process.env.APPWRITE_PROJECT_ID?.trim();
-  const apiKey = process.env.APPWRITE_API_KEY?.trim();
+  const endpoint = (environment.endpoint ?? process.env.APPWRITE_ENDPOINT)?.trim();
+  const projectId = (environment.projectId ?? process.env.APPWRITE_PROJECT_ID)?.trim();
+  const apiKey = target ? resolveApiKey(environment, target) : process.env.APPWRITE_API_KEY?.trim();
 
   if (!endpoint || !projectId || !apiKey) {
-    throw new Error(
-      'Missing required environment variables: APPWRITE_ENDPOINT, APPWRITE_PROJECT_ID, APPWRITE_API_KEY',
+    throw new ConfigError(
+      target
+        ? `Target '${target}' is missing an endpoint, project ID or API key. Set them in its ` +
+            'environments entry or through APPWRITE_ENDPOINT, APPWRITE_PROJECT_ID, APPWRITE_API_KEY.'
+        : 'Missing required environment variables: APPWRITE_ENDPOINT, APPWRITE_PROJECT_ID, APPWRITE_API_KEY',
     );
   }
 
@@ -35,38 +256,35 @@ export const loadConfig = (envPath: string = '.env'): AppConfig => {
       throw new Error('APPWRITE_ENDPOINT must use http or https protocol.');
     }
   } catch {
-    throw new Error(`APPWRITE_ENDPOINT is not a valid URL: "${endpoint}"`);
+    throw new ConfigError(`APPWRITE_ENDPOINT is not a valid URL: "${endpoint}"`);
   }
 
-  // Find root directory.
-  const rootDir = process.cwd();
-  const configPath = path.join(rootDir, 'appwrite', 'appwrite-ctl.config.json');
-
-  let migrationCollectionId = 'migrations';
-  let database = 'system';
-
-  if (fs.existsSync(configPath)) {
-    try {
-      const fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
-      if (fileConfig.collection) {
-        migrationCollectionId = fileConfig.collection;
-      }
-      if (fileConfig.database) {
-        database = fileConfig.database;
-      } else if (fileConfig.databaseId) {
-        // Backward compatibility.
-        database = fileConfig.databaseId;
-      }
-    } catch {
-      console.warn('Could not parse appwrite-ctl.config.json, using defaults.');
-    }
-  }
+  // Environment settings take precedence over the top-level ones.
+  const migrationCollectionId: string =
+    environment.collection ?? fileConfig.collection ?? 'migrations';
+  const lockCollectionId: string | undefined =
+    environment.lockCollection ?? fileConfig.lockCollection;
+  const checkpointCollectionId: string | undefined =
+    environment.checkpointCollection ?? fileConfig.checkpointCollection;
+  // `databaseId` is kept for backward compatibility.
+  const database: string =
+    environment.database ?? fileConfig.database ?? fileConfig.databaseId ?? 'system';
 
   return {
     endpoint,
     projectId,
     apiKey,
     migrationCollectionId,
+    // The lock lives next to the migrations collection unless configured otherwise.
+    lockCollectionId: lockCollectionId ?? `${migrationCollectionId}_lock`,
+    checkpointCollectionId: checkpointCollectionId ?? `${migrationCollectionId}_checkpoints`,
     database,
+    hooks: parseHooks(fileConfig?.hooks),
+    retry: parseRetryPolicy(fileConfig?.retry),
+    puller: parseSchemaEngine('puller', fileConfig?.puller),
+    pusher: parseSchemaEngine('pusher', fileConfig?.pusher),
+    scope: parseResourceScope(fileConfig?.resources, fileConfig?.filters),
+    target,
+    production: environment.production === true,
   };
 };
@@ -0,0 +1,142 @@
+import { IMMUTABLE_COLUMN_FIELDS } from './apply.js';
+import { AppConfig } from './config.js';
+import { getTrackingTableKeys } from './appwrite.js';
+import { diffSchemas, SchemaChange } from './diff.js';
+import { scopeSnapshot } from './scope.js';
+import type { Column, Snapshot } from '../types/index.js';
+
+/**
+ * Schema changes that can lose data:
+ * - `drop-database`, `drop-table`, `drop-column`, `drop-bucket`, `drop-team`, `drop-topic`: the
+ *   resource and its data (rows, files, memberships, subscribers) are deleted.
+ * - `narrow-column`: a column changes a field that cannot change in place (type, format, array,
+ *   encryption, relationship target or two-way settings), so the push recreates it; or it
+ *   shrinks or loses enum elements, so existing values may be truncated or rejected.
+ * - `required-column`: a required column without default is added to a table that has rows.
+ */
+export type DestructiveKind =
+  | 'drop-database'
+  | 'drop-table'
+  | 'drop-column'
+  | 'narrow-column'
+  | 'required-column'
+  | 'drop-bucket'
+  | 'drop-team'
+  | 'drop-topic';
+
+export interface DestructiveChange {
+  kind: DestructiveKind;
+  /** Qualified resource ID, e.g. `databaseId/tableId/key` for a column. */
+  id: string;
+  reason: string;
+  /** Whether the version (or the run) allows this change. */
+  allowed: boolean;
+}
+
+export interface DestructiveCheckOptions {
+  /**
+   * Entries of `Migration.allowDestructive`: each allows the changes of a kind
+   * (`drop-column`) or on a resource (`app/orders/note`).
+   */
+  allow?: string[];
+  /**
+   * Whether a table has rows. Without it, every existing table is assumed to have rows.
+   */
+  hasRows?: (databaseId: string, tableId: string) => Promise<boolean>;
+}
+
+const DROP_KINDS: Partial<Record<SchemaChange['type'], DestructiveKind>> = {
+  database: 'drop-database',
+  table: 'drop-table',
+  column: 'drop-column',
+  relationship: 'drop-column',
+  bucket: 'drop-bucket',
+  team: 'drop-team',
+  topic: 'drop-topic',
+};
+
+/**
+ * Why an updated column may lose data, or null if the change is safe.
+ */
+const narrowingReason = (change: SchemaChange): string | null => {
+  for (const { field, from, to } of change.settings) {
+    // The push deletes and recreates the column, dropping its values.
+    if ((IMMUTABLE_COLUMN_FIELDS as readonly string[]).includes(field)) {
+      return `${field} changes from ${from ?? 'none'} to ${to ?? 'none'}, which recreates the column`;
+    }
+    if (field === 'size' && typeof from === 'number' && typeof to === 'number' && to < from) {
+      return `size shrinks from ${from} to ${to}`;
+    }
+    if (field === 'elements' && Array.isArray(from)) {
+      const removed = from.filter((element) => !((to as unknown[]) ?? []).includes(element));
+      if (removed.length > 0) return `enum elements removed: ${removed.join(', ')}`;
+    }
+  }
+  return null;
+};
+
+const isRequiredWithoutDefault = (column: Column): boolean =>
+  !!column.required && (column.default === undefined || column.default === null);
+
+/**
+ * Classify the changes from `from` to `to` that can lose data. The migration tracking
+ * collections and resources outside of the configured scope are ignored, since pushes never
+ * touch them, and so are teams and topics whose deletion is not allowed.
+ */
+export const findDestructiveChanges = async (
+  from: Snapshot,
+  to: Snapshot,
+  config: AppConfig,
+  options: DestructiveCheckOptions = {},
+): Promise<DestructiveChange[]> => {
+  const allow = options.allow ?? [];
+  const tracking = getTrackingTableKeys(config);
+  const destructive: Omit<DestructiveChange, 'allowed'>[] = [];
+
+  const changes = diffSchemas(scopeSnapshot(from, config.scope), scopeSnapshot(to, config.scope));
+  for (const change of changes) {
+    const [databaseId, tableId] = change.id.split('/');
+    if (tracking.has(`${databaseId}/${tableId}`)) continue;
+    // The tracking database is never deleted either.
+    if (change.type === 'database' && change.id === config.database) continue;
+
+    const dropKind = DROP_KINDS[change.type];
+    if (change.kind === 'delete' && dropKind) {
+      // The push keeps teams and topics missing from the snapshot unless they are allowed.
+      const kept =
+        (change.type === 'team' || change.type === 'topic') &&
+        !allow.includes(dropKind) &&
+        !allow.includes(change.id);
+      if (!kept) {
+        destructive.push({ kind: dropKind, id: change.id, reason: `${change.type} is removed` });
+      }
+      continue;
+    }
+
+    if (change.kind === 'update' && (change.type === 'column' || change.type === 'relationship')) {
+      const reason = narrowingReason(change);
+      if (reason) destructive.push({ kind: 'narrow-column', id: change.id, reason });
+      continue;
+    }
+
+    if (change.kind === 'create' && change.type === 'column') {
+      const table = to.tables.find((t) => t.databaseId === databaseId && t.$id === tableId);
+      const column = table?.columns.find((c) => `${databaseId}/${tableId}/${c.key}` === change.id);
+      if (!column || !isRequiredWithoutDefault(column)) continue;
+
+      const hasRows = options.hasRows ? await options.hasRows(databaseId, tableId) : true;
+      if (hasRows) {
+        destructive.push({
+          kind: 'required-column',
+          id: change.id,
+          reason: 'required column without default is added to a table with rows',
+        });
+      }
+    }
+  }
+
+  return destructive.map((change) => ({
+    ...change,
+    allowed: allow.includes(change.kind) || allow.includes(change.id),
+  }));
+};
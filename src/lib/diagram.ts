@@ -1,74 +1,9 @@
 import fs from 'fs';
 import path from 'path';
+import { readSnapshot } from './cli.js';
+import { loadResourceScope, scopeSnapshot } from './scope.js';
 import { loadSecurityLedger, getExceptions } from './security.js';
-import type { SecurityLedger, SecurityException } from '../types/index.js';
-
-interface Column {
-  key: string;
-  type: string;
-  required?: boolean;
-  array?: boolean;
-  size?: number;
-  default?: unknown;
-  min?: number;
-  max?: number;
-  format?: string;
-  elements?: string[];
-  encrypt?: boolean;
-  relatedTable?: string;
-  relationType?: string;
-  twoWay?: boolean;
-  twoWayKey?: string;
-  onDelete?: string;
-  side?: string;
-}
-
-interface Index {
-  key: string;
-  type: string;
-  status?: string;
-  columns: string[];
-  orders: string[];
-}
-
-interface Table {
-  $id: string;
-  $permissions: string[];
-  databaseId: string;
-  name: string;
-  enabled: boolean;
-  rowSecurity: boolean;
-  columns: Column[];
-  indexes: Index[];
-}
-
-interface Database {
-  $id: string;
-  name: string;
-  enabled: boolean;
-}
-
-interface Bucket {
-  $id: string;
-  $permissions: string[];
-  fileSecurity: boolean;
-  name: string;
-  enabled: boolean;
-  maximumFileSize: number;
-  allowedFileExtensions: string[];
-  compression: string;
-  encryption: boolean;
-  antivirus: boolean;
-}
-
-interface Snapshot {
-  projectId: string;
-  tablesDB: Database[];
-  tables: Table[];
-  buckets: Bucket[];
-  teams: { $id: string; name: string }[];
-  topics: { $id: string; name: string }[];
-}
+import type { Bucket, Column, SecurityException, SecurityLedger, Table } from '../types/index.js';
 
 const MERMAID_CARDINALITY: Record<string, string> = {
   oneToOne: '||--||',
@@ -315,8 +250,7 @@ const buildBucketsDoc = (buckets: Bucket[], ledger?: SecurityLedger): string =>
  * Generate the full schema documentation markdown from a snapshot.
  */
 export const generateSchemaDoc = (snapshotPath: string, version: string): string => {
-  const raw = fs.readFileSync(snapshotPath, 'utf-8');
-  const snapshot: Snapshot = JSON.parse(raw);
+  const snapshot = scopeSnapshot(readSnapshot(snapshotPath), loadResourceScope());
 
   // Load security ledger from appwrite/ at the project root
   const appwriteDir = path.join(process.cwd(), 'appwrite');
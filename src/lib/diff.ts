@@ -0,0 +1,331 @@
+import fs from 'fs';
+import path from 'path';
+import { getSnapshotFilename, readSnapshot } from './cli.js';
+import { loadConfig, LoggerOptions, TargetOptions } from './config.js';
+import { AppwriteCtlError } from './errors.js';
+import { consoleLogger } from './logger.js';
+import { pullLiveSchema } from './puller.js';
+import { loadResourceScope, scopeSnapshot } from './scope.js';
+import { normalizeSnapshot } from './snapshot.js';
+import { parseVersion } from './versions.js';
+import type { Column, Index, Snapshot, Table } from '../types/index.js';
+
+export type ChangeKind = 'create' | 'update' | 'delete';
+
+export type SchemaResourceType = 'database' | 'table' | 'bucket' | 'team' | 'topic';
+
+// Server-managed fields that change without any schema change.
+const VOLATILE_FIELDS = new Set(['$createdAt', '$updatedAt', 'status', 'error']);
+
+/**
+ * Recursively drop volatile fields so that only schema-relevant values are compared.
+ */
+const stripVolatile = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(stripVolatile);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !VOLATILE_FIELDS.has(key))
+        .map(([key, val]) => [key, stripVolatile(val)]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Compare two schema values, ignoring server-managed fields such as `status`.
+ */
+export const isSchemaEqual = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(stripVolatile(a)) === JSON.stringify(stripVolatile(b));
+
+export type SchemaChangeType = SchemaResourceType | 'column' | 'index' | 'relationship';
+
+export interface SettingChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SchemaChange {
+  type: SchemaChangeType;
+  /** Qualified ID: `databaseId/tableId` for tables, `databaseId/tableId/key` below. */
+  id: string;
+  kind: ChangeKind;
+  /** Settings that differ (only set for `update`). */
+  settings: SettingChange[];
+  /** Short description of an added or removed resource, e.g. `integer, required`. */
+  summary?: string;
+}
+
+export interface SchemaDiff {
+  /** Compared sources: a version (`v4`), `live` or a snapshot path. */
+  from: string;
+  to: string;
+  changes: SchemaChange[];
+}
+
+/**
+ * Treat a missing setting like null: both mean unset. Any other value, including `false` and
+ * `''`, is a setting of its own, e.g. a `default` of `false`.
+ */
+export const normalizeSetting = (value: unknown): unknown => (value === undefined ? null : value);
+
+// Settings compared per resource type. `$permissions` is reported as `permissions`.
+const DATABASE_SETTINGS = ['name', 'enabled'];
+const TABLE_SETTINGS = ['name', 'enabled', '$permissions', 'rowSecurity'];
+const COLUMN_SETTINGS = [
+  'type',
+  'format',
+  'size',
+  'required',
+  'default',
+  'array',
+  'elements',
+  'min',
+  'max',
+  'encrypt',
+];
+const RELATIONSHIP_SETTINGS = [
+  'relatedTable',
+  'relationType',
+  'twoWay',
+  'twoWayKey',
+  'onDelete',
+  'side',
+];
+const INDEX_SETTINGS = ['type', 'columns', 'orders'];
+const BUCKET_SETTINGS = [
+  'name',
+  'enabled',
+  '$permissions',
+  'fileSecurity',
+  'maximumFileSize',
+  'allowedFileExtensions',
+  'compression',
+  'encryption',
+  'antivirus',
+];
+const NAME_SETTINGS = ['name'];
+
+const settingLabel = (field: string): string => (field === '$permissions' ? 'permissions' : field);
+
+const compareSettings = (from: object, to: object, fields: string[]): SettingChange[] =>
+  fields
+    .map((field) => ({
+      field: settingLabel(field),
+      from: (from as Record<string, unknown>)[field],
+      to: (to as Record<string, unknown>)[field],
+    }))
+    .filter((change) => !isSchemaEqual(normalizeSetting(change.from), normalizeSetting(change.to)));
+
+const summarizeColumn = (column: Column): string => {
+  if (column.type === 'relationship') {
+    return `${column.relationType} → ${column.relatedTable}${column.twoWay ? ', two-way' : ''}`;
+  }
+  const type = column.format || column.type;
+  const parts = [column.size !== undefined ? `${type}(${column.size})` : type];
+  if (column.array) parts.push('array');
+  if (column.required) parts.push('required');
+  if (column.default !== undefined && column.default !== null) {
+    parts.push(`default ${JSON.stringify(column.default)}`);
+  }
+  if (column.elements?.length) parts.push(`[${column.elements.join(', ')}]`);
+  return parts.join(', ');
+};
+
+const summarizeIndex = (index: Index): string => `${index.type} (${index.columns.join(', ')})`;
+
+/**
+ * Compare two keyed lists and report additions, removals and setting changes.
+ */
+const compareLists = <T extends object>(
+  type: SchemaChangeType,
+  from: T[],
+  to: T[],
+  keyOf: (item: T) => string,
+  settings: string[],
+  summarize?: (item: T) => string,
+): SchemaChange[] => {
+  const changes: SchemaChange[] = [];
+  const fromMap = new Map(from.map((item) => [keyOf(item), item]));
+  const toMap = new Map(to.map((item) => [keyOf(item), item]));
+
+  for (const [id, target] of toMap) {
+    const current = fromMap.get(id);
+    if (!current) {
+      changes.push({ type, id, kind: 'create', settings: [], summary: summarize?.(target) });
+      continue;
+    }
+    const changed = compareSettings(current, target, settings);
+    if (changed.length > 0) changes.push({ type, id, kind: 'update', settings: changed });
+  }
+  for (const [id, current] of fromMap) {
+    if (!toMap.has(id)) {
+      changes.push({ type, id, kind: 'delete', settings: [], summary: summarize?.(current) });
+    }
+  }
+  return changes;
+};
+
+/**
+ * Compute the semantic differences between two snapshots, down to columns, indexes and
+ * relationships. Changes of a table are listed right after the table itself.
+ */
+export const diffSchemas = (from: Snapshot, to: Snapshot): SchemaChange[] => {
+  // Compare canonical forms, so permission order never counts as a change.
+  [from, to] = [normalizeSnapshot(from), normalizeSnapshot(to)];
+  const tableKey = (table: Table) => `${table.databaseId}/${table.$id}`;
+  const changes = compareLists(
+    'database',
+    from.tablesDB,
+    to.tablesDB,
+    (database) => database.$id,
+    DATABASE_SETTINGS,
+  );
+
+  const fromTables = new Map(from.tables.map((table) => [tableKey(table), table]));
+  const toTables = new Map(to.tables.map((table) => [tableKey(table), table]));
+  const tableKeys = [...new Set([...fromTables.keys(), ...toTables.keys()])];
+
+  for (const key of tableKeys) {
+    const current = fromTables.get(key);
+    const target = toTables.get(key);
+    changes.push(
+      ...compareLists(
+        'table',
+        current ? [current] : [],
+        target ? [target] : [],
+        tableKey,
+        TABLE_SETTINGS,
+        (table) => `${table.columns.length} columns, ${table.indexes.length} indexes`,
+      ),
+    );
+    // Columns and indexes of an added or removed table are covered by the table itself.
+    if (!current || !target) continue;
+
+    const isRelationship = (column: Column) => column.type === 'relationship';
+    const columnKey = (column: Column) => `${key}/${column.key}`;
+    changes.push(
+      ...compareLists(
+        'column',
+        current.columns.filter((column) => !isRelationship(column)),
+        target.columns.filter((column) => !isRelationship(column)),
+        columnKey,
+        COLUMN_SETTINGS,
+        summarizeColumn,
+      ),
+      ...compareLists(
+        'relationship',
+        current.columns.filter(isRelationship),
+        target.columns.filter(isRelationship),
+        columnKey,
+        RELATIONSHIP_SETTINGS,
+        summarizeColumn,
+      ),
+      ...compareLists(
+        'index',
+        current.indexes,
+        target.indexes,
+        (index) => `${key}/${index.key}`,
+        INDEX_SETTINGS,
+        summarizeIndex,
+      ),
+    );
+  }
+
+  const byId = (resource: { $id: string }) => resource.$id;
+  return [
+    ...changes,
+    ...compareLists('bucket', from.buckets, to.buckets, byId, BUCKET_SETTINGS),
+    ...compareLists('team', from.teams, to.teams, byId, NAME_SETTINGS),
+    ...compareLists('topic', from.topics, to.topics, byId, NAME_SETTINGS),
+  ];
+};
+
+/**
+ * Render a setting value for display: JSON for values, `—` when unset.
+ */
+export const formatSetting = (value: unknown): string =>
+  value === undefined || value === null ? '—' : JSON.stringify(value);
+
+const MARKDOWN_KINDS: Record<ChangeKind, string> = {
+  create: 'Added',
+  update: 'Changed',
+  delete: 'Removed',
+};
+
+/**
+ * Render a schema diff as Markdown, e.g. for a pull request comment.
+ */
+export const formatSchemaDiffMarkdown = (diff: SchemaDiff): string => {
+  const lines = [`### Schema diff: \`${diff.from}\` → \`${diff.to}\``, ''];
+  if (diff.changes.length === 0) {
+    lines.push('No schema changes.');
+    return lines.join('\n') + '\n';
+  }
+
+  const escape = (text: string) => text.replace(/\|/g, '\\|');
+  lines.push('| Change | Type | Resource | Details |', '| :-- | :-- | :-- | :-- |');
+  for (const change of diff.changes) {
+    const details =
+      change.kind === 'update'
+        ? change.settings
+            .map(
+              ({ field, from, to }) =>
+                `${field}: \`${formatSetting(from)}\` → \`${formatSetting(to)}\``,
+            )
+            .join('<br>')
+        : (change.summary ?? '');
+    lines.push(
+      `| ${MARKDOWN_KINDS[change.kind]} | ${change.type} | \`${change.id}\` | ${escape(details)} |`,
+    );
+  }
+  return lines.join('\n') + '\n';
+};
+
+export interface CompareOptions extends TargetOptions, LoggerOptions {}
+
+/**
+ * Load the snapshot of a diff source: `live` pulls the current schema, a version name reads
+ * its stored snapshot, anything else is read as a snapshot file path.
+ */
+const loadDiffSource = async (source: string, live: () => Promise<Snapshot>): Promise<Snapshot> => {
+  if (source === 'live') return live();
+
+  const snapshotPath =
+    parseVersion(source) !== null
+      ? path.join(process.cwd(), 'appwrite', 'migration', source, getSnapshotFilename())
+      : path.resolve(process.cwd(), source);
+  if (!fs.existsSync(snapshotPath)) {
+    throw new AppwriteCtlError(`No snapshot found for '${source}' (${snapshotPath}).`, {
+      version: parseVersion(source) !== null ? source : undefined,
+    });
+  }
+  return readSnapshot(snapshotPath);
+};
+
+/**
+ * Compare two schema sources, e.g. `v4` and `v5`, or `v5` and `live`.
+ * Appwrite is only contacted when one side is `live`.
+ */
+export const compareSchemas = async (
+  envPath: string,
+  from: string,
+  to: string,
+  options: CompareOptions = {},
+): Promise<SchemaDiff> => {
+  const logger = options.logger ?? consoleLogger;
+  let liveSnapshot: Promise<Snapshot> | undefined;
+  const live = () =>
+    (liveSnapshot ??= (async () => {
+      const config = loadConfig(envPath, logger, options.target);
+      logger.info('Pulling live schema...');
+      return pullLiveSchema(config, logger);
+    })());
+
+  // Stored snapshots may predate the scope, so both sides are restricted to it.
+  const scope = loadResourceScope();
+  const fromSnapshot = scopeSnapshot(await loadDiffSource(from, live), scope);
+  const toSnapshot = scopeSnapshot(await loadDiffSource(to, live), scope);
+  return { from, to, changes: diffSchemas(fromSnapshot, toSnapshot) };
+};
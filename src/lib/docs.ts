@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { loadConfig, LoggerOptions, TargetOptions } from './config.js';
+import { getSnapshotFilename } from './cli.js';
+import { generateSchemaDoc } from './diagram.js';
+import { AppwriteCtlError } from './errors.js';
+import { consoleLogger } from './logger.js';
+import { pullSchemaFile } from './puller.js';
+import type { OperationLogger } from '../types/index.js';
+
+export interface DocsOptions extends TargetOptions, LoggerOptions {
+  /** Generate from the stored snapshot of this version instead of pulling from Appwrite. */
+  version?: string;
+}
+
+export interface DocsResult {
+  /** Version the docs describe (`latest` when pulled from Appwrite). */
+  version: string;
+  /** Paths of the written `docs.md` files. */
+  outputs: string[];
+}
+
+/**
+ * Render a snapshot to `<outputDir>/docs.md`.
+ * Returns the written path, or null if the snapshot does not exist.
+ */
+export const writeSchemaDocs = (
+  snapshotPath: string,
+  version: string,
+  outputDir: string,
+  logger: OperationLogger = consoleLogger,
+): string | null => {
+  if (!fs.existsSync(snapshotPath)) return null;
+
+  const markdown = generateSchemaDoc(snapshotPath, version);
+
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const outputPath = path.join(outputDir, 'docs.md');
+  fs.writeFileSync(outputPath, markdown);
+  logger.success(`Docs updated at ${outputPath}`);
+  return outputPath;
+};
+
+/**
+ * Generate schema documentation with ER diagrams.
+ *
+ * With a version, docs are rendered from its stored snapshot into both `appwrite/` and the
+ * version directory. Without one, the live schema is pulled and rendered into `appwrite/`.
+ */
+export const generateDocs = async (
+  envPath: string = '.env',
+  options: DocsOptions = {},
+): Promise<DocsResult> => {
+  const logger = options.logger ?? consoleLogger;
+  const appwriteDir = path.join(process.cwd(), 'appwrite');
+  const outputs: string[] = [];
+
+  if (options.version) {
+    const { version } = options;
+    // Use stored snapshot for the given version without hitting Appwrite.
+    const versionPath = path.join(appwriteDir, 'migration', version);
+    if (!fs.existsSync(versionPath)) {
+      throw new AppwriteCtlError(`Version directory '${version}' not found.`, { version });
+    }
+    const snapshotPath = path.join(versionPath, getSnapshotFilename());
+    if (!fs.existsSync(snapshotPath)) {
+      throw new AppwriteCtlError(`No snapshot found for ${version}.`, { version });
+    }
+    logger.info(`Generating docs from stored snapshot for ${version}...`);
+    for (const outputDir of [appwriteDir, versionPath]) {
+      const output = writeSchemaDocs(snapshotPath, version, outputDir, logger);
+      if (output) outputs.push(output);
+    }
+    return { version, outputs };
+  }
+
+  const config = loadConfig(envPath, logger, options.target);
+
+  logger.info('Pulling latest schema from Appwrite to project root...');
+  const snapshotPath = await pullSchemaFile(config, undefined, logger);
+
+  try {
+    logger.info('Generating documentation...');
+    const output = writeSchemaDocs(snapshotPath, 'latest', appwriteDir, logger);
+    if (output) outputs.push(output);
+  } finally {
+    // Cleanup the temporary snapshot pulled to root
+    if (fs.existsSync(snapshotPath)) {
+      fs.unlinkSync(snapshotPath);
+    }
+  }
+
+  return { version: 'latest', outputs };
+};
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import { withoutTrackingResources } from './appwrite.js';
+import { getSnapshotFilename, readSnapshot } from './cli.js';
+import { loadConfig, LoggerOptions, TargetOptions } from './config.js';
+import { diffSchemas, SchemaDiff } from './diff.js';
+import { MigrationStateError } from './errors.js';
+import { consoleLogger } from './logger.js';
+import { pullLiveSchema } from './puller.js';
+import { getMigrationsDir, getMigrationStatus } from './runner.js';
+import { scopeSnapshot } from './scope.js';
+import type { Snapshot } from '../types/index.js';
+
+export interface DriftOptions extends TargetOptions, LoggerOptions {}
+
+export interface DriftResult {
+  /** Newest applied version with a snapshot, which the live schema is compared with. */
+  version: string;
+  snapshotPath: string;
+  /** Changes from the version's snapshot to the live schema. */
+  diff: SchemaDiff;
+  /** The live schema, e.g. to record it as a new version. */
+  live: Snapshot;
+  drifted: boolean;
+}
+
+/**
+ * Compare the live schema with the snapshot of the newest applied version, to find changes
+ * made outside of migrations (e.g. in the Appwrite console). The live schema is pulled without
+ * writing anything to the project. The tracking database and collections are ignored, as pushes
+ * never manage them.
+ */
+export const detectDrift = async (
+  envPath: string = '.env',
+  options: DriftOptions = {},
+): Promise<DriftResult> => {
+  const logger = options.logger ?? consoleLogger;
+  const config = loadConfig(envPath, logger, options.target);
+  const { versions } = await getMigrationStatus(envPath, options);
+
+  const migrationsDir = getMigrationsDir();
+  const snapshotFilename = getSnapshotFilename();
+  // Versions without a snapshot push nothing, so the schema is the last snapshot pushed.
+  const baseline = versions
+    .filter(({ status }) => status === 'applied' || status === 'modified')
+    .map(({ version }) => ({
+      version,
+      snapshotPath: path.join(migrationsDir, version, snapshotFilename),
+    }))
+    .filter(({ snapshotPath }) => fs.existsSync(snapshotPath))
+    .pop();
+  if (!baseline) {
+    throw new MigrationStateError(
+      `No applied version has a ${snapshotFilename} to compare the live schema with.`,
+    );
+  }
+
+  logger.info(`Pulling live schema to compare with ${baseline.version}...`);
+  const live = await pullLiveSchema(config, logger);
+  // The live schema is pulled within the scope; the stored snapshot may predate it. Pushes never
+  // manage the tracking database and collections, so they are not drift either.
+  const changes = diffSchemas(
+    withoutTrackingResources(
+      scopeSnapshot(readSnapshot(baseline.snapshotPath), config.scope),
+      config,
+    ),
+    withoutTrackingResources(live, config),
+  );
+
+  return {
+    ...baseline,
+    diff: { from: baseline.version, to: 'live', changes },
+    live,
+    drifted: changes.length > 0,
+  };
+};
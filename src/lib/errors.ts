@@ -0,0 +1,40 @@
+/**
+ * Base class of every error thrown by appwrite-ctl operations.
+ */
+export class AppwriteCtlError extends Error {
+  /** Version directory the error relates to (e.g. `v3`), if any. */
+  readonly version?: string;
+
+  constructor(message: string, options: { cause?: unknown; version?: string } = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.version = options.version;
+  }
+}
+
+/** Missing or invalid configuration (environment variables, appwrite-ctl.config.json). */
+export class ConfigError extends AppwriteCtlError {}
+
+/** A migration file could not be loaded or has no valid default export. */
+export class MigrationLoadError extends AppwriteCtlError {}
+
+/** The migration state does not allow the requested operation (modified, pending or irreversible versions). */
+export class MigrationStateError extends AppwriteCtlError {}
+
+/** Another run holds the migration lock. */
+export class MigrationLockError extends AppwriteCtlError {}
+
+/** Pulling the schema from Appwrite failed. */
+export class SchemaPullError extends AppwriteCtlError {}
+
+/** Pushing a schema snapshot to Appwrite failed. */
+export class SchemaPushError extends AppwriteCtlError {}
+
+/** A version's snapshot would lose data and the version does not allow it. */
+export class DestructiveChangeError extends AppwriteCtlError {}
+
+/** A migration's `up` or `down` function threw. */
+export class MigrationScriptError extends AppwriteCtlError {}
+
+/** A lifecycle hook could not be loaded or threw. */
+export class HookError extends AppwriteCtlError {}
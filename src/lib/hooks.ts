@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import { AppConfig } from './config.js';
+import { HookError } from './errors.js';
+import { importModule } from './loader.js';
+import type { Hook, HookContext, HookName } from '../types/index.js';
+
+export type LoadedHooks = Partial<Record<HookName, { file: string; hook: Hook }[]>>;
+
+/**
+ * Load the hook modules declared in appwrite-ctl.config.json.
+ * Each module must default-export a function receiving the hook context.
+ * Throws before anything runs if a module is missing or invalid.
+ */
+export const loadHooks = async (config: AppConfig): Promise<LoadedHooks> => {
+  const loaded: LoadedHooks = {};
+
+  for (const [name, files] of Object.entries(config.hooks) as [HookName, string[]][]) {
+    loaded[name] = [];
+    for (const file of files) {
+      const hookPath = path.resolve(process.cwd(), file);
+      if (!fs.existsSync(hookPath)) {
+        throw new HookError(`Hook module for '${name}' not found: ${file}`);
+      }
+
+      let hookModule;
+      try {
+        hookModule = await importModule(hookPath);
+      } catch (loadError) {
+        throw new HookError(`Failed to load hook module ${file}: ${(loadError as Error).message}`, {
+          cause: loadError,
+        });
+      }
+
+      const hook = (hookModule as any).default;
+      if (typeof hook !== 'function') {
+        throw new HookError(`Invalid hook module ${file}: default export must be a function.`);
+      }
+      loaded[name]!.push({ file, hook });
+    }
+  }
+
+  return loaded;
+};
+
+/**
+ * Run every hook registered for a lifecycle point, in declaration order.
+ * The first failing hook stops the others and is rethrown as a HookError.
+ */
+export const runHooks = async (hooks: LoadedHooks, context: HookContext): Promise<void> => {
+  for (const { file, hook } of hooks[context.hook] ?? []) {
+    try {
+      await hook(context);
+    } catch (error) {
+      throw new HookError(`${context.hook} hook ${file} failed: ${(error as Error).message}`, {
+        cause: error,
+        version: context.version,
+      });
+    }
+  }
+};
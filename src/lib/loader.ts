@@ -0,0 +1,8 @@
+import { createJiti } from 'jiti';
+
+const jiti = createJiti(import.meta.url);
+
+/**
+ * Import a user-authored TypeScript or JavaScript module (migrations, hooks) at runtime.
+ */
+export const importModule = (file: string): Promise<unknown> => jiti.import(file);
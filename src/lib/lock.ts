@@ -0,0 +1,189 @@
+import os from 'os';
+import { Databases } from 'node-appwrite';
+import chalk from 'chalk';
+import { AppConfig, LoggerOptions } from './config.js';
+import { ensureLockCollection } from './appwrite.js';
+import { MigrationLockError } from './errors.js';
+import { consoleLogger } from './logger.js';
+import { resolveAuthor } from './security.js';
+
+// A single lock document guards every migration run of the project.
+const LOCK_DOCUMENT_ID = 'migrations';
+
+/**
+ * Seconds without a heartbeat after which a lock is considered abandoned.
+ */
+export const DEFAULT_LOCK_TTL_SECONDS = 300;
+
+export interface LockInfo {
+  holder: string;
+  acquiredAt: string;
+  heartbeatAt: string;
+  ttl: number;
+}
+
+export interface AcquireLockOptions extends LoggerOptions {
+  /** Seconds without a heartbeat after which the lock may be taken over. */
+  ttlSeconds?: number;
+}
+
+export interface MigrationLock {
+  holder: string;
+  release: () => Promise<void>;
+}
+
+/**
+ * Identify the current process: author, host and pid.
+ */
+const resolveLockHolder = (): string => `${resolveAuthor()}@${os.hostname()} (pid ${process.pid})`;
+
+const isExpired = (lock: LockInfo): boolean =>
+  Date.now() - new Date(lock.heartbeatAt).getTime() > lock.ttl * 1000;
+
+/**
+ * Read the current lock document, or null if no run holds the lock.
+ */
+export const getLock = async (
+  databases: Databases,
+  config: AppConfig,
+): Promise<LockInfo | null> => {
+  try {
+    const doc: any = await databases.getDocument(
+      config.database,
+      config.lockCollectionId,
+      LOCK_DOCUMENT_ID,
+    );
+    return {
+      holder: doc.holder,
+      acquiredAt: doc.acquiredAt,
+      heartbeatAt: doc.heartbeatAt,
+      ttl: doc.ttl,
+    };
+  } catch (error: any) {
+    if (error.code === 404) return null;
+    throw error;
+  }
+};
+
+/**
+ * Delete an expired lock, unless another run took it over since it was read. Without this check,
+ * two runs seeing the same expired lock could delete each other's fresh lock and both proceed.
+ */
+const deleteExpiredLock = async (
+  databases: Databases,
+  config: AppConfig,
+  expired: LockInfo,
+): Promise<void> => {
+  const current = await getLock(databases, config);
+  if (current?.holder !== expired.holder || current.heartbeatAt !== expired.heartbeatAt) return;
+
+  try {
+    await databases.deleteDocument(config.database, config.lockCollectionId, LOCK_DOCUMENT_ID);
+  } catch (error: any) {
+    if (error.code !== 404) throw error;
+  }
+};
+
+/**
+ * Take the exclusive migration lock.
+ *
+ * The lock is a document with a fixed ID, so creating it is atomic: a concurrent run gets a
+ * conflict and fails fast. A lock whose heartbeat is older than its TTL is taken over.
+ * While held, the heartbeat is refreshed in the background until `release()` is called.
+ */
+export const acquireLock = async (
+  databases: Databases,
+  config: AppConfig,
+  options: AcquireLockOptions = {},
+): Promise<MigrationLock> => {
+  const { ttlSeconds = DEFAULT_LOCK_TTL_SECONDS, logger = consoleLogger } = options;
+  await ensureLockCollection(databases, config, logger);
+
+  const holder = resolveLockHolder();
+  const now = new Date().toISOString();
+
+  try {
+    await databases.createDocument(config.database, config.lockCollectionId, LOCK_DOCUMENT_ID, {
+      holder,
+      acquiredAt: now,
+      heartbeatAt: now,
+      ttl: ttlSeconds,
+    });
+  } catch (error: any) {
+    if (error.code !== 409) throw error;
+
+    const existing = await getLock(databases, config);
+    if (existing && !isExpired(existing)) {
+      throw new MigrationLockError(
+        `Migrations are locked by ${existing.holder} since ${existing.acquiredAt} ` +
+          `(last heartbeat ${existing.heartbeatAt}). ` +
+          `If that run crashed, release the lock with 'migrations unlock --force'.`,
+        { cause: error },
+      );
+    }
+
+    if (existing) {
+      logger.warn(`Taking over expired migration lock held by ${existing.holder}.`);
+      await deleteExpiredLock(databases, config, existing);
+    }
+    return acquireLock(databases, config, options);
+  }
+
+  logger.info(chalk.gray(`Migration lock acquired by ${holder}.`));
+
+  // Refresh well within the TTL so a slow request never lets the lock expire.
+  const heartbeat = setInterval(
+    async () => {
+      try {
+        // Once another run took the lock over, refreshing would keep its heartbeat alive instead.
+        const current = await getLock(databases, config);
+        if (current?.holder !== holder) {
+          clearInterval(heartbeat);
+          logger.warn(
+            `  ⚠ Migration lock lost${current ? ` to ${current.holder}` : ''}; no longer refreshing it.`,
+          );
+          return;
+        }
+        await databases.updateDocument(config.database, config.lockCollectionId, LOCK_DOCUMENT_ID, {
+          heartbeatAt: new Date().toISOString(),
+        });
+      } catch (error: any) {
+        logger.warn(`  ⚠ Failed to refresh migration lock: ${error.message}`);
+      }
+    },
+    (ttlSeconds * 1000) / 3,
+  );
+  heartbeat.unref();
+
+  return {
+    holder,
+    release: async () => {
+      clearInterval(heartbeat);
+      const current = await getLock(databases, config);
+      // Never release a lock that was forcibly taken over by another run.
+      if (current?.holder === holder) {
+        await databases.deleteDocument(config.database, config.lockCollectionId, LOCK_DOCUMENT_ID);
+        logger.info(chalk.gray('Migration lock released.'));
+      }
+    },
+  };
+};
+
+/**
+ * Delete the lock document regardless of its holder.
+ * Returns the lock that was removed, or null if none was held.
+ */
+export const forceUnlock = async (
+  databases: Databases,
+  config: AppConfig,
+): Promise<LockInfo | null> => {
+  const existing = await getLock(databases, config);
+  if (!existing) return null;
+
+  try {
+    await databases.deleteDocument(config.database, config.lockCollectionId, LOCK_DOCUMENT_ID);
+  } catch (error: any) {
+    if (error.code !== 404) throw error;
+  }
+  return existing;
+};
@@ -0,0 +1,22 @@
+import chalk from 'chalk';
+import type { OperationLogger } from '../types/index.js';
+
+/**
+ * Default logger: prints progress to the console, colored by level.
+ */
+export const consoleLogger: OperationLogger = {
+  info: (msg) => console.log(msg),
+  success: (msg) => console.log(chalk.green(msg)),
+  warn: (msg) => console.warn(chalk.yellow(msg)),
+  error: (msg) => console.error(chalk.red(msg)),
+};
+
+/**
+ * Logger that discards every message, for callers that only use the returned results.
+ */
+export const silentLogger: OperationLogger = {
+  info: () => {},
+  success: () => {},
+  warn: () => {},
+  error: () => {},
+};
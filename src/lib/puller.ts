@@ -0,0 +1,226 @@
+import path from 'path';
+import { Models, Query } from 'node-appwrite';
+import { createAppwriteClient } from './appwrite.js';
+import { AppConfig } from './config.js';
+import {
+  configureClient,
+  getSnapshotFilename,
+  pullLiveSnapshot,
+  pullSnapshot,
+  readSnapshot,
+} from './cli.js';
+import { SchemaPullError } from './errors.js';
+import { consoleLogger } from './logger.js';
+import { isInScope, SchemaResource, scopeSnapshot } from './scope.js';
+import { writeSnapshot } from './snapshot.js';
+import type {
+  Bucket,
+  Column,
+  Database,
+  Index,
+  OperationLogger,
+  Snapshot,
+  Table,
+  Team,
+  Topic,
+} from '../types/index.js';
+
+/**
+ * How the live schema is pulled:
+ * - `sdk`: through `node-appwrite`, without any external tool (default).
+ * - `cli`: through `appwrite pull`, which requires a globally installed `appwrite-cli`.
+ */
+export type SchemaPuller = 'sdk' | 'cli';
+
+const PAGE_SIZE = 100;
+
+/**
+ * Fetch every item of a paginated list endpoint, following `Query.cursorAfter`.
+ */
+const listAll = async <T extends { $id: string }>(
+  fetchPage: (queries: string[]) => Promise<T[]>,
+): Promise<T[]> => {
+  const items: T[] = [];
+  while (true) {
+    const cursor = items.length > 0 ? [Query.cursorAfter(items[items.length - 1].$id)] : [];
+    const page = await fetchPage([Query.limit(PAGE_SIZE), ...cursor]);
+    items.push(...page);
+    if (page.length < PAGE_SIZE) return items;
+  }
+};
+
+// Column fields describing processing state rather than the definition; the CLI omits them.
+const COLUMN_STATE_FIELDS = new Set(['status', 'error', '$createdAt', '$updatedAt']);
+
+const toColumn = (column: object): Column =>
+  Object.fromEntries(
+    Object.entries(column).filter(([field]) => !COLUMN_STATE_FIELDS.has(field)),
+  ) as Column;
+
+const toIndex = (index: Models.ColumnIndex): Index => ({
+  key: index.key,
+  type: index.type,
+  status: index.status,
+  columns: index.columns,
+  lengths: index.lengths,
+  orders: index.orders ?? [],
+});
+
+const toTable = (table: Models.Table): Table => ({
+  $id: table.$id,
+  $permissions: table.$permissions,
+  databaseId: table.databaseId,
+  name: table.name,
+  enabled: table.enabled,
+  rowSecurity: table.rowSecurity,
+  columns: table.columns.map(toColumn),
+  indexes: table.indexes.map(toIndex),
+});
+
+const toBucket = (bucket: Models.Bucket): Bucket => ({
+  $id: bucket.$id,
+  $permissions: bucket.$permissions,
+  fileSecurity: bucket.fileSecurity,
+  name: bucket.name,
+  enabled: bucket.enabled,
+  maximumFileSize: bucket.maximumFileSize,
+  allowedFileExtensions: bucket.allowedFileExtensions,
+  compression: bucket.compression,
+  encryption: bucket.encryption,
+  antivirus: bucket.antivirus,
+});
+
+/**
+ * Run one resource pull, turning any failure into a SchemaPullError so a partial snapshot is
+ * never written.
+ */
+const pullResource = async <T>(
+  resource: string,
+  pull: () => Promise<T>,
+  logger: OperationLogger,
+): Promise<T> => {
+  logger.info(`Pulling ${resource}...`);
+  try {
+    const result = await pull();
+    logger.success(`  ✓ ${resource}`);
+    return result;
+  } catch (error: any) {
+    logger.error(`  ✗ Failed to pull ${resource}: ${error.message}`);
+    throw new SchemaPullError(`Failed to pull ${resource}: ${error.message}`, { cause: error });
+  }
+};
+
+/**
+ * Pull the live schema through the Appwrite SDK: databases, tables with their columns and
+ * indexes, buckets, teams and topics, in the `appwrite.config.json` shape written by the CLI.
+ * Only resources within the configured scope are pulled.
+ */
+export const fetchSnapshot = async (
+  config: AppConfig,
+  logger: OperationLogger = consoleLogger,
+): Promise<Snapshot> => {
+  const { tablesDB, storage, teams, messaging } = createAppwriteClient(config, logger);
+  const synced = (resource: SchemaResource) => config.scope.resources.includes(resource);
+
+  const { databases, tables } = synced('tables')
+    ? await pullResource(
+        'tables',
+        async () => {
+          const databases = (
+            await listAll(
+              async (queries) => (await tablesDB.list(queries, undefined, false)).databases,
+            )
+          ).filter((database) => isInScope(config.scope, 'databases', database.$id));
+          const tables: Table[] = [];
+          for (const database of databases) {
+            const page = await listAll(
+              async (queries) =>
+                (await tablesDB.listTables(database.$id, queries, undefined, false)).tables,
+            );
+            tables.push(...page.map(toTable));
+          }
+          return { databases, tables };
+        },
+        logger,
+      )
+    : { databases: [], tables: [] };
+
+  const buckets = synced('buckets')
+    ? await pullResource(
+        'buckets',
+        async () =>
+          listAll(
+            async (queries) => (await storage.listBuckets(queries, undefined, false)).buckets,
+          ),
+        logger,
+      )
+    : [];
+  const teamList = synced('teams')
+    ? await pullResource(
+        'teams',
+        async () => listAll(async (queries) => (await teams.list(queries, undefined, false)).teams),
+        logger,
+      )
+    : [];
+  const topics = synced('topics')
+    ? await pullResource(
+        'topics',
+        async () =>
+          listAll(
+            async (queries) => (await messaging.listTopics(queries, undefined, false)).topics,
+          ),
+        logger,
+      )
+    : [];
+
+  return scopeSnapshot(
+    {
+      projectId: config.projectId,
+      tablesDB: databases.map(({ $id, name, enabled }): Database => ({ $id, name, enabled })),
+      tables,
+      buckets: buckets.map(toBucket),
+      teams: teamList.map(({ $id, name }): Team => ({ $id, name })),
+      topics: topics.map(({ $id, name }): Topic => ({ $id, name })),
+    },
+    config.scope,
+  );
+};
+
+/**
+ * Pull the live schema with the configured puller and return it without writing anything to
+ * the project.
+ */
+export const pullLiveSchema = async (
+  config: AppConfig,
+  logger: OperationLogger = consoleLogger,
+): Promise<Snapshot> => {
+  if (config.puller === 'cli') {
+    await configureClient(config, logger);
+    return scopeSnapshot(await pullLiveSnapshot(logger, config.scope.resources), config.scope);
+  }
+  return fetchSnapshot(config, logger);
+};
+
+/**
+ * Pull the live schema with the configured puller into `appwrite.config.json` inside
+ * `targetDir` (default: the project root) and return the written path. The snapshot is
+ * written in canonical form, so re-pulling an unchanged schema leaves the file unchanged.
+ */
+export const pullSchemaFile = async (
+  config: AppConfig,
+  targetDir: string = process.cwd(),
+  logger: OperationLogger = consoleLogger,
+): Promise<string> => {
+  if (config.puller === 'cli') {
+    await configureClient(config, logger);
+    const snapshotPath = await pullSnapshot(targetDir, logger, config.scope.resources);
+    writeSnapshot(snapshotPath, scopeSnapshot(readSnapshot(snapshotPath), config.scope));
+    return snapshotPath;
+  }
+
+  const snapshot = await fetchSnapshot(config, logger);
+  const snapshotPath = path.join(targetDir, getSnapshotFilename());
+  writeSnapshot(snapshotPath, snapshot);
+  logger.success(`Snapshot saved to ${snapshotPath}`);
+  return snapshotPath;
+};
@@ -0,0 +1,85 @@
+import { consoleLogger } from './logger.js';
+import type { OperationLogger } from '../types/index.js';
+
+export interface RetryPolicy {
+  /** Total attempts per call, including the first one. 1 disables retries. */
+  attempts: number;
+  /** Delay before the first retry; doubled after every further attempt. */
+  baseDelayMs: number;
+  /** Upper bound of a single delay. */
+  maxDelayMs: number;
+  /** Appwrite error codes that are retried. Every other error fails immediately. */
+  retryableCodes: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 15_000,
+  retryableCodes: [408, 429, 502, 503, 504],
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryable = (error: unknown, policy: RetryPolicy): boolean =>
+  policy.retryableCodes.includes((error as { code?: number })?.code as number);
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential backoff with jitter, so parallel
+ * callers hitting the same rate limit do not retry in lockstep.
+ */
+const backoffDelay = (attempt: number, policy: RetryPolicy): number => {
+  const delay = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
+
+/**
+ * Run an Appwrite call, retrying transient failures according to the policy.
+ */
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  logger: OperationLogger = consoleLogger,
+  label = 'Appwrite request',
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.attempts || !isRetryable(error, policy)) throw error;
+
+      const delay = backoffDelay(attempt, policy);
+      const code = (error as { code: number }).code;
+      const reason = code === 429 ? 'Rate limited' : `Transient error ${code}`;
+      logger.warn(
+        `${reason} on ${label}. Retrying in ${(delay / 1000).toFixed(1)}s ` +
+          `(attempt ${attempt + 1}/${policy.attempts})...`,
+      );
+      await sleep(delay);
+    }
+  }
+};
+
+/**
+ * Wrap an SDK service (Databases, Storage, ...) so every method call is retried according to
+ * the policy. Properties other than methods are passed through unchanged.
+ */
+export const wrapWithRetry = <T extends object>(
+  service: T,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  logger: OperationLogger = consoleLogger,
+): T =>
+  new Proxy(service, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || property === 'constructor') return value;
+
+      return (...args: unknown[]) =>
+        withRetry(
+          () => value.apply(target, args),
+          policy,
+          logger,
+          `${target.constructor.name}.${String(property)}`,
+        );
+    },
+  });
@@ -1,151 +1,1451 @@
-import { Databases } from 'node-appwrite';
+import {
+  Client,
+  Databases,
+  Functions,
+  Messaging,
+  Query,
+  Storage,
+  TablesDB,
+  Teams,
+  Users,
+} from 'node-appwrite';
+import { createHash } from 'crypto';
 import fs from 'fs';
 import path from 'path';
-import { createJiti } from 'jiti';
-import { loadConfig } from './config.js';
-import { createAppwriteClient, getAppliedMigrations, recordMigration } from './appwrite.js';
-import { configureClient, pushSnapshot, getSnapshotFilename } from './cli.js';
-import { Migration, MigrationContext } from '../types/index.js';
-import chalk from 'chalk';
+import { AppConfig, loadConfig, LoggerOptions, TargetOptions } from './config.js';
+import {
+  createAppwriteClient,
+  ensureMigrationCollection,
+  getAppliedMigrations,
+  getLatestMigrationRecords,
+  isMigrationApplied,
+  recordMigration,
+  withoutTrackingResources,
+} from './appwrite.js';
+import { loadHooks, runHooks } from './hooks.js';
+import { importModule } from './loader.js';
+import { wrapWithRetry } from './retry.js';
+import {
+  discoverVersions,
+  findDuplicateVersions,
+  findInvalidVersionDirs,
+  getVersionNaming,
+  nextVersionNames,
+  parseVersion,
+} from './versions.js';
+import { acquireLock } from './lock.js';
+import { resolveAuthor } from './security.js';
+import { getToolVersion } from './version.js';
+import { ApplyStep, planSchemaApply, pushSchemaSnapshot } from './apply.js';
+import { readSnapshot, getSnapshotFilename } from './cli.js';
+import { createBulkHelpers } from './bulk.js';
+import { createCheckpointStore } from './checkpoint.js';
+import { writeSchemaDocs } from './docs.js';
+import { pullLiveSchema, pullSchemaFile } from './puller.js';
+import { scopeSnapshot } from './scope.js';
+import { formatSnapshotFile, serializeSnapshot } from './snapshot.js';
+import { DestructiveChange, findDestructiveChanges } from './destructive.js';
+import { diffSchemas, SchemaChange } from './diff.js';
+import {
+  AppwriteCtlError,
+  DestructiveChangeError,
+  MigrationLoadError,
+  MigrationScriptError,
+  MigrationStateError,
+  SchemaPushError,
+} from './errors.js';
+import { consoleLogger } from './logger.js';
+import {
+  HookContext,
+  HookName,
+  HookRun,
+  Logger,
+  Migration,
+  MigrationContext,
+  MigrationRecord,
+  OperationLogger,
+  Snapshot,
+} from '../types/index.js';
 
-const jiti = createJiti(import.meta.url);
+/**
+ * Resolve the migration entry file of a version directory (index.ts, then index.js).
+ */
+export const resolveIndexFile = (versionPath: string): string | null => {
+  const indexFile = path.join(versionPath, 'index.ts');
+  const indexFileJs = path.join(versionPath, 'index.js');
+
+  return fs.existsSync(indexFile) ? indexFile : fs.existsSync(indexFileJs) ? indexFileJs : null;
+};
 
 /**
- * Run pending migrations.
+ * Load and validate the migration module of a version directory.
+ * Throws if the file cannot be loaded or is missing its default export / id.
  */
-export const runMigrations = async (envPath: string = '.env') => {
-  const config = loadConfig(envPath);
-  const { client, databases } = createAppwriteClient(config);
+export const loadMigration = async (version: string, indexFile: string): Promise<Migration> => {
+  // Load migration file using jiti.
+  let migrationModule;
+  try {
+    migrationModule = await importModule(indexFile);
+  } catch (loadError) {
+    throw new MigrationLoadError(
+      `Failed to load migration file ${indexFile}: ${(loadError as Error).message}`,
+      { cause: loadError, version },
+    );
+  }
 
-  console.log('Starting migration process...');
+  const migration: Migration = (migrationModule as any).default;
 
-  // 0. Configure CLI with API key (non-interactive auth).
-  console.log('Configuring Appwrite CLI...');
-  await configureClient(config);
+  if (!migration || !migration.id) {
+    throw new MigrationLoadError(
+      `Invalid migration file in ${version}: Missing default export or id.`,
+      { version },
+    );
+  }
 
-  // 1. Discovery.
-  const migrationsDir = path.join(process.cwd(), 'appwrite', 'migration');
-  if (!fs.existsSync(migrationsDir)) {
-    console.error(`Migrations directory not found at ${migrationsDir}`);
-    process.exit(1);
-  }
-
-  const versionDirs = fs
-    .readdirSync(migrationsDir)
-    .filter(
-      (dir) => dir.startsWith('v') && fs.statSync(path.join(migrationsDir, dir)).isDirectory(),
-    )
-    .sort((a, b) => {
-      const numA = parseInt(a.substring(1));
-      const numB = parseInt(b.substring(1));
-      return numA - numB;
-    });
+  return migration;
+};
 
-  console.log(`Found ${versionDirs.length} versions.`);
+/**
+ * Compute the SHA-256 checksum of a version's migration file and snapshot. The snapshot is
+ * hashed in canonical form unless `raw` is set.
+ * Returns null if the version has no migration file.
+ */
+export const computeMigrationChecksum = (versionPath: string, raw = false): string | null => {
+  const indexFile = resolveIndexFile(versionPath);
+  if (!indexFile) return null;
+
+  const hash = createHash('sha256').update(fs.readFileSync(indexFile));
+
+  const snapshotPath = path.join(versionPath, getSnapshotFilename());
+  if (fs.existsSync(snapshotPath)) {
+    hash
+      .update('\0')
+      .update(raw ? fs.readFileSync(snapshotPath) : readCanonicalSnapshot(snapshotPath));
+  }
+
+  return hash.digest('hex');
+};
 
-  // 2. State Check.
-  const appliedMigrationIds = await getAppliedMigrations(databases, config);
-  const appliedSet = new Set(appliedMigrationIds);
+/**
+ * Read a snapshot in canonical form, so that reformatting it does not change its checksum.
+ * Files that are not valid JSON are hashed as they are.
+ */
+const readCanonicalSnapshot = (snapshotPath: string): string => {
+  const content = fs.readFileSync(snapshotPath, 'utf8');
+  try {
+    return serializeSnapshot(JSON.parse(content));
+  } catch {
+    return content;
+  }
+};
+
+/**
+ * Whether an applied version's files changed since it ran.
+ * Records written before checksums were tracked cannot be checked and never count as modified.
+ */
+export const isModified = (record: MigrationRecord, versionPath: string): boolean =>
+  !!record.checksum &&
+  record.checksum !== computeMigrationChecksum(versionPath) &&
+  // Records written before snapshots were canonicalized hash the snapshot file as it was.
+  record.checksum !== computeMigrationChecksum(versionPath, true);
+
+/**
+ * Build the SDK services and helpers shared by migration and hook contexts.
+ * Every service shares the run's authenticated client and retries transient errors with the
+ * configured retry policy.
+ */
+const createServices = (
+  client: Client,
+  config: AppConfig,
+  logger: OperationLogger,
+  log: Logger,
+) => {
+  const withRetry = <T extends object>(service: T) => wrapWithRetry(service, config.retry, logger);
+  const databases = withRetry(new Databases(client));
+
+  return {
+    client,
+    databases,
+    tablesDB: withRetry(new TablesDB(client)),
+    storage: withRetry(new Storage(client)),
+    users: withRetry(new Users(client)),
+    teams: withRetry(new Teams(client)),
+    functions: withRetry(new Functions(client)),
+    messaging: withRetry(new Messaging(client)),
+    bulk: createBulkHelpers(databases, log),
+  };
+};
+
+/**
+ * Build the context handed to a migration's `up` / `down` function.
+ */
+const createContext = (
+  version: string,
+  migration: Migration,
+  client: Client,
+  config: AppConfig,
+  logger: OperationLogger,
+): MigrationContext => {
+  const log = (msg: string) => logger.info(`[${version}] ${msg}`);
+  const services = createServices(client, config, logger, log);
+
+  return {
+    ...services,
+    checkpoint: createCheckpointStore(services.databases, config, migration.id),
+    log,
+    error: (msg) => logger.error(`[${version}] ${msg}`),
+    version,
+    migrationId: migration.id,
+    projectId: config.projectId,
+    endpoint: config.endpoint,
+  };
+};
+
+/**
+ * Build the context handed to a lifecycle hook. Version-level hooks receive the version being
+ * applied; run-level hooks do not.
+ */
+const createHookContext = (
+  hook: HookName,
+  run: HookRun,
+  client: Client,
+  config: AppConfig,
+  logger: OperationLogger,
+  current?: { version: string; migration: Migration },
+  failure?: Error,
+): HookContext => {
+  const prefix = current ? `[${hook} ${current.version}]` : `[${hook}]`;
+  const log = (msg: string) => logger.info(`${prefix} ${msg}`);
+
+  return {
+    ...createServices(client, config, logger, log),
+    hook,
+    run,
+    log,
+    error: (msg) => logger.error(`${prefix} ${msg}`),
+    version: current?.version,
+    migrationId: current?.migration.id,
+    projectId: config.projectId,
+    endpoint: config.endpoint,
+    failure,
+  };
+};
+
+export interface RunOptions extends TargetOptions, LoggerOptions {
+  /** Plan the run without pushing schemas, running scripts or recording anything. */
+  dryRun?: boolean;
+  /** Proceed even if applied versions were modified since they ran. */
+  allowModified?: boolean;
+  /** Stop after this version (e.g. `v7`), applying every pending version up to it. */
+  to?: string;
+  /** Apply only this version. Every earlier version must already be applied. */
+  only?: string;
+  /** With `only`: re-apply the version's snapshot and script even if it is already applied. */
+  force?: boolean;
+  /** Apply pending versions ordered before an applied one instead of refusing to run. */
+  allowOutOfOrder?: boolean;
+  /** Push snapshots with destructive changes even if their versions do not declare them. */
+  allowDestructive?: boolean;
+}
+
+export interface VersionTiming {
+  version: string;
+  id: string;
+  durationMs: number;
+}
 
+export type SkipReason = 'applied' | 'modified' | 'not-selected' | 'missing-index';
+
+export interface SkippedVersion {
+  version: string;
+  /** Migration ID; unknown for versions without an index file. */
+  id?: string;
+  reason: SkipReason;
+}
+
+export interface PlannedVersion {
+  version: string;
+  id: string;
+  description?: string;
+  /** Snapshot that would be pushed, or null if the version has none. */
+  snapshotPath: string | null;
+  /**
+   * Resources the push would create, change or delete. With the `sdk` pusher these are the steps
+   * it runs, in order; a column it recreates shows as a deletion and a creation.
+   */
+  changes: SchemaChange[];
+  /** Changes of the push that can lose data. */
+  destructive: DestructiveChange[];
+}
+
+export interface RunResult {
+  dryRun: boolean;
+  /** Versions applied by this run, in order. Empty for a dry run. */
+  applied: VersionTiming[];
+  skipped: SkippedVersion[];
+  /** Versions a dry run would apply. Empty unless `dryRun` is set. */
+  plan: PlannedVersion[];
+  durationMs: number;
+}
+
+interface PendingVersion {
+  version: string;
+  versionPath: string;
+  migration: Migration;
+}
+
+/**
+ * Classify the destructive changes of each pending version's snapshot. Each snapshot is compared
+ * with the state left by the previous push, starting from the live project.
+ */
+const checkDestructiveChanges = async (
+  pending: PendingVersion[],
+  live: Snapshot,
+  config: AppConfig,
+  tablesDB: TablesDB,
+  allowAll: boolean,
+): Promise<Map<string, DestructiveChange[]>> => {
+  const liveTables = new Set(live.tables.map((table) => `${table.databaseId}/${table.$id}`));
+  const hasRows = async (databaseId: string, tableId: string) => {
+    // Tables created by an earlier pending version have no rows yet.
+    if (!liveTables.has(`${databaseId}/${tableId}`)) return false;
+    const { rows } = await tablesDB.listRows(databaseId, tableId, [Query.limit(1)]);
+    return rows.length > 0;
+  };
+
+  const destructive = new Map<string, DestructiveChange[]>();
+  let current = live;
+  for (const { version, versionPath, migration } of pending) {
+    const snapshotPath = path.join(versionPath, getSnapshotFilename());
+    if (!fs.existsSync(snapshotPath)) continue;
+
+    const target = readSnapshot(snapshotPath);
+    const changes = await findDestructiveChanges(current, target, config, {
+      allow: migration.allowDestructive,
+      hasRows,
+    });
+    destructive.set(
+      version,
+      changes.map((change) => ({ ...change, allowed: change.allowed || allowAll })),
+    );
+    current = target;
+  }
+  return destructive;
+};
+
+/**
+ * Express the steps of an SDK push as schema changes, in the order they run. Settings and
+ * summaries are taken from the comparison of the two schemas.
+ */
+const toPlannedChanges = (steps: ApplyStep[], changes: SchemaChange[]): SchemaChange[] => {
+  const byResource = new Map(changes.map((change) => [`${change.type} ${change.id}`, change]));
+  return steps.map(({ type, id, action }) => {
+    const change = byResource.get(`${type} ${id}`);
+    return {
+      type,
+      id,
+      kind: action,
+      settings: action === 'delete' ? [] : (change?.settings ?? []),
+      summary: change?.summary,
+    };
+  });
+};
+
+/**
+ * Build the plan of a dry run: each pending version, the snapshot it would push and the
+ * resources that push would create, change or delete. Each snapshot is compared with the
+ * state left by the previous push, starting from the live project. With the `sdk` pusher, the
+ * plan lists the steps the push runs; with the `cli` pusher, the differences between the
+ * schemas. Like the push, the plan leaves the tracking database and collections and resources
+ * outside of the scope alone.
+ */
+const buildMigrationPlan = (
+  pending: PendingVersion[],
+  live: Snapshot,
+  destructive: Map<string, DestructiveChange[]>,
+  config: AppConfig,
+): PlannedVersion[] => {
   const snapshotFilename = getSnapshotFilename();
+  let current = withoutTrackingResources(live, config);
 
-  for (const version of versionDirs) {
-    const versionPath = path.join(migrationsDir, version);
-    const indexFile = path.join(versionPath, 'index.ts');
-    const indexFileJs = path.join(versionPath, 'index.js');
+  return pending.map(({ version, versionPath, migration }) => {
+    const snapshotPath = path.join(versionPath, snapshotFilename);
+    if (!fs.existsSync(snapshotPath)) {
+      return {
+        version,
+        id: migration.id,
+        description: migration.description,
+        snapshotPath: null,
+        changes: [],
+        destructive: [],
+      };
+    }
 
-    const validIndexFile = fs.existsSync(indexFile)
-      ? indexFile
-      : fs.existsSync(indexFileJs)
-        ? indexFileJs
-        : null;
+    const target = withoutTrackingResources(
+      scopeSnapshot(readSnapshot(snapshotPath), config.scope),
+      config,
+    );
+    let changes = diffSchemas(current, target);
+    let next = target;
+    if (config.pusher === 'sdk') {
+      const steps = planSchemaApply(current, target, config, {
+        allowDestructive: migration.allowDestructive,
+      });
+      changes = toPlannedChanges(steps, changes);
+      // Teams and topics the push keeps stay in place for the next version.
+      const deleted = new Set(
+        steps.filter(({ action }) => action === 'delete').map(({ type, id }) => `${type} ${id}`),
+      );
+      const kept = <T extends { $id: string }>(type: string, live: T[], targets: T[]) =>
+        live.filter(
+          ({ $id }) => !targets.some((t) => t.$id === $id) && !deleted.has(`${type} ${$id}`),
+        );
+      next = {
+        ...target,
+        teams: [...target.teams, ...kept('team', current.teams, target.teams)],
+        topics: [...target.topics, ...kept('topic', current.topics, target.topics)],
+      };
+    }
+    current = next;
+    return {
+      version,
+      id: migration.id,
+      description: migration.description,
+      snapshotPath,
+      changes,
+      destructive: destructive.get(version) ?? [],
+    };
+  });
+};
 
-    if (!validIndexFile) {
-      console.warn(`Skipping ${version}: No index.ts or index.js found.`);
-      continue;
+/**
+ * Pick the versions a run applies, in order, honouring `--to` and `--only`.
+ * Throws if the selection would leave an earlier pending version behind.
+ */
+const selectVersions = (
+  loaded: PendingVersion[],
+  appliedVersions: Set<string>,
+  options: RunOptions,
+): PendingVersion[] => {
+  const target = options.only ?? options.to;
+  const targetIndex = loaded.findIndex(({ version }) => version === target);
+  if (target !== undefined && targetIndex === -1) {
+    throw new MigrationStateError(`Version ${target} not found or has no index.ts / index.js.`, {
+      version: target,
+    });
+  }
+
+  const isPending = ({ version }: PendingVersion) => !appliedVersions.has(version);
+
+  if (options.to !== undefined) {
+    return loaded.slice(0, targetIndex + 1).filter(isPending);
+  }
+
+  if (options.only !== undefined) {
+    const earlierPending = loaded
+      .slice(0, targetIndex)
+      .filter(isPending)
+      .map(({ version }) => version);
+    if (earlierPending.length > 0) {
+      throw new MigrationStateError(
+        `Cannot apply ${options.only} on its own: earlier versions ${earlierPending.join(', ')} are pending. ` +
+          `Apply them first, e.g. with --to ${earlierPending[earlierPending.length - 1]}.`,
+        { version: options.only },
+      );
     }
 
-    // Load migration file using jiti.
-    let migrationModule;
-    try {
-      migrationModule = await jiti.import(validIndexFile);
-    } catch (loadError) {
-      console.error(`Failed to load migration file ${validIndexFile}:`, loadError);
-      process.exit(1);
+    if (appliedVersions.has(options.only) && !options.force) {
+      throw new MigrationStateError(
+        `Version ${options.only} is already applied. Use --force to re-apply it.`,
+        { version: options.only },
+      );
     }
+    return [loaded[targetIndex]];
+  }
 
-    const migration: Migration = (migrationModule as any).default;
+  return loaded.filter(isPending);
+};
 
-    if (!migration || !migration.id) {
-      console.error(`Invalid migration file in ${version}: Missing default export or id.`);
-      process.exit(1);
+/**
+ * Refuse to run when the version directories cannot be ordered unambiguously.
+ */
+const assertVersionsOrderable = (migrationsDir: string, versionDirs: string[]) => {
+  const invalid = findInvalidVersionDirs(migrationsDir);
+  if (invalid.length > 0) {
+    throw new MigrationStateError(
+      `Invalid version directory names: ${invalid.join(', ')}. ` +
+        `Use vN or vYYYYMMDDHHmmss so they can be ordered.`,
+    );
+  }
+
+  const duplicates = findDuplicateVersions(versionDirs);
+  if (duplicates.length > 0) {
+    throw new MigrationStateError(
+      `Duplicate versions: ${duplicates.map((group) => group.join(' = ')).join('; ')}. ` +
+        `Run 'migrations rebase' to renumber the unapplied ones.`,
+    );
+  }
+};
+
+/**
+ * Refuse to run when two versions share a migration ID, e.g. a version copied on another branch.
+ */
+const assertUniqueMigrationIds = (loaded: PendingVersion[]) => {
+  const versionsById = new Map<string, string>();
+  for (const { version, migration } of loaded) {
+    const other = versionsById.get(migration.id);
+    if (other) {
+      throw new MigrationStateError(
+        `Versions ${other} and ${version} share the migration id ${migration.id}. ` +
+          `Give ${version} a new id.`,
+        { version },
+      );
     }
+    versionsById.set(migration.id, version);
+  }
+};
 
-    if (appliedSet.has(migration.id)) {
-      console.log(`Version ${version} (${migration.id}) already applied. Skipping.`);
-      continue;
+/**
+ * Pending versions ordered before the newest applied version.
+ */
+const findOutOfOrderVersions = (
+  loaded: { version: string }[],
+  appliedVersions: Set<string>,
+): string[] => {
+  const lastApplied = loaded.map(({ version }) => appliedVersions.has(version)).lastIndexOf(true);
+  return loaded
+    .slice(0, Math.max(lastApplied, 0))
+    .filter(({ version }) => !appliedVersions.has(version))
+    .map(({ version }) => version);
+};
+
+/**
+ * Directory holding the migration versions (`appwrite/migration`).
+ */
+export const getMigrationsDir = (): string => path.join(process.cwd(), 'appwrite', 'migration');
+
+/**
+ * Run pending migrations.
+ */
+export const runMigrations = async (
+  envPath: string = '.env',
+  options: RunOptions = {},
+): Promise<RunResult> => {
+  const logger = options.logger ?? consoleLogger;
+  const runStartedAt = Date.now();
+
+  if (options.to !== undefined && options.only !== undefined) {
+    throw new AppwriteCtlError('Use either --to or --only, not both.');
+  }
+  if (options.force && options.only === undefined) {
+    throw new AppwriteCtlError('--force can only be used together with --only.');
+  }
+
+  const config = loadConfig(envPath, logger, options.target);
+  const { client, databases, tablesDB } = createAppwriteClient(config, logger);
+
+  logger.info(
+    options.dryRun ? 'Planning migrations (dry run)...' : 'Starting migration process...',
+  );
+
+  // Load hooks up front so an invalid hook module fails the run before anything changes.
+  const hooks = await loadHooks(config);
+
+  if (!options.dryRun) {
+    // Make sure the tracking collection has every history attribute before recording runs.
+    await ensureMigrationCollection(databases, config, logger);
+  }
+
+  // Take the migration lock so concurrent runs cannot apply the same versions.
+  // A dry run writes nothing and therefore does not need it.
+  const lock = options.dryRun ? null : await acquireLock(databases, config, { logger });
+
+  try {
+    // 1. Discovery.
+    const migrationsDir = getMigrationsDir();
+    if (!fs.existsSync(migrationsDir)) {
+      throw new AppwriteCtlError(`Migrations directory not found at ${migrationsDir}`);
     }
 
-    console.log(`Applying version ${version} (${migration.id})...`);
+    const versionDirs = discoverVersions(migrationsDir);
+    assertVersionsOrderable(migrationsDir, versionDirs);
 
-    // 3. Schema sync via CLI push.
-    const snapshotPath = path.join(versionPath, snapshotFilename);
-    if (fs.existsSync(snapshotPath)) {
-      console.log(`Pushing schema snapshot for ${version}...`);
-      try {
-        await pushSnapshot(snapshotPath, config);
-      } catch (error: any) {
-        console.error('Schema push failed:', error.message);
-        console.error("Ensure 'appwrite-cli' is installed and accessible.");
-        process.exit(1);
+    logger.info(`Found ${versionDirs.length} versions.`);
+
+    // 2. State Check.
+    const latest = await getLatestMigrationRecords(databases, config);
+    const appliedRecords = new Map(
+      [...latest.values()].filter(isMigrationApplied).map((record) => [record.id, record]),
+    );
+
+    const loaded: PendingVersion[] = [];
+    const appliedVersions = new Set<string>();
+    const modified: string[] = [];
+    const skipped: SkippedVersion[] = [];
+    for (const version of versionDirs) {
+      const versionPath = path.join(migrationsDir, version);
+      const validIndexFile = resolveIndexFile(versionPath);
+
+      if (!validIndexFile) {
+        logger.warn(`Skipping ${version}: No index.ts or index.js found.`);
+        skipped.push({ version, reason: 'missing-index' });
+        continue;
+      }
+
+      const migration = await loadMigration(version, validIndexFile);
+      loaded.push({ version, versionPath, migration });
+
+      const record = appliedRecords.get(migration.id);
+      if (record) {
+        appliedVersions.add(version);
+        // A forced re-run of a single version is expected to pick up its changes.
+        const forced = options.force && options.only === version;
+        if (!forced && isModified(record, versionPath)) {
+          logger.warn(`Version ${version} (${migration.id}) was modified after it was applied.`);
+          modified.push(version);
+        } else {
+          logger.info(`Version ${version} (${migration.id}) already applied. Skipping.`);
+        }
       }
-    } else {
-      console.warn(`No ${snapshotFilename} found in ${version}. Skipping schema sync.`);
     }
 
-    // 5. Attribute polling.
-    if (fs.existsSync(snapshotPath)) {
-      await waitForAttributes(databases, snapshotPath);
+    // Applied versions must not change, or environments silently drift apart.
+    if (modified.length > 0 && !options.allowModified && !options.dryRun) {
+      throw new MigrationStateError(
+        `Applied versions were modified since they ran: ${modified.join(', ')}. ` +
+          `Restore their original content or re-run with --allow-modified.`,
+      );
     }
 
-    // 6. Data execution.
-    console.log('Executing migration script...');
-    const context: MigrationContext = {
-      client,
-      databases,
-      log: (msg) => console.log(`[${version}] ${msg}`),
-      error: (msg) => console.error(`[${version}] ${msg}`),
+    assertUniqueMigrationIds(loaded);
+
+    // A pending version ordered before an applied one was usually merged in from another branch.
+    const outOfOrder = findOutOfOrderVersions(loaded, appliedVersions);
+    if (outOfOrder.length > 0) {
+      const message =
+        `Versions ${outOfOrder.join(', ')} are pending but ordered before applied versions. ` +
+        `Run 'migrations rebase' to move them after the applied ones, or re-run with --allow-out-of-order.`;
+      if (!options.allowOutOfOrder && !options.dryRun) {
+        throw new MigrationStateError(message);
+      }
+      logger.warn(message);
+    }
+
+    const pending = selectVersions(loaded, appliedVersions, options);
+
+    for (const { version, migration } of loaded) {
+      if (pending.some((selected) => selected.version === version)) continue;
+      const reason: SkipReason = modified.includes(version)
+        ? 'modified'
+        : appliedVersions.has(version)
+          ? 'applied'
+          : 'not-selected';
+      skipped.push({ version, id: migration.id, reason });
+    }
+
+    if (options.dryRun) {
+      let plan: PlannedVersion[] = [];
+      if (pending.length === 0) {
+        logger.info('No pending migrations.');
+      } else {
+        logger.info('Pulling live schema for comparison...');
+        const live = await pullLiveSchema(config, logger);
+        const destructive = await checkDestructiveChanges(
+          pending,
+          live,
+          config,
+          tablesDB,
+          !!options.allowDestructive,
+        );
+        plan = buildMigrationPlan(pending, live, destructive, config);
+      }
+      return { dryRun: true, applied: [], skipped, plan, durationMs: Date.now() - runStartedAt };
+    }
+
+    if (pending.length === 0) {
+      logger.info('No pending migrations.');
+      return {
+        dryRun: false,
+        applied: [],
+        skipped,
+        plan: [],
+        durationMs: Date.now() - runStartedAt,
+      };
+    }
+
+    const snapshotFilename = getSnapshotFilename();
+
+    // Refuse before anything changes if a snapshot would lose data its version does not allow.
+    if (
+      pending.some(({ versionPath }) => fs.existsSync(path.join(versionPath, snapshotFilename)))
+    ) {
+      logger.info('Checking snapshots for destructive changes...');
+      const destructive = await checkDestructiveChanges(
+        pending,
+        await pullLiveSchema(config, logger),
+        config,
+        tablesDB,
+        !!options.allowDestructive,
+      );
+      const describe = (version: string, change: DestructiveChange) =>
+        `${version}: ${change.kind} ${change.id} (${change.reason})`;
+      const blocked = [...destructive].flatMap(([version, changes]) =>
+        changes.filter((change) => !change.allowed).map((change) => describe(version, change)),
+      );
+      if (blocked.length > 0) {
+        throw new DestructiveChangeError(
+          `Snapshots would make destructive changes that are not allowed:\n  ${blocked.join('\n  ')}\n` +
+            `Declare them in the version's allowDestructive, or re-run with --allow-destructive.`,
+        );
+      }
+      for (const [version, changes] of destructive) {
+        for (const change of changes) {
+          logger.warn(`Allowed destructive change in ${describe(version, change)}.`);
+        }
+      }
+    }
+
+    const applied: VersionTiming[] = [];
+    const run: HookRun = {
+      startedAt: new Date(runStartedAt).toISOString(),
+      pending: pending.map(({ version }) => version),
+      applied,
     };
+    const hookContext = (hook: HookName, current?: PendingVersion, failure?: Error) =>
+      createHookContext(hook, run, client, config, logger, current, failure);
+    let current: PendingVersion | undefined;
+
+    try {
+      // A failing beforeAll hook aborts the run before anything is changed.
+      await runHooks(hooks, hookContext('beforeAll'));
 
-    if (migration.up) {
+      for (const entry of pending) {
+        current = entry;
+        const { version, versionPath, migration } = entry;
+        logger.info(`Applying version ${version} (${migration.id})...`);
+
+        const startedAt = Date.now();
+        const runDetails = {
+          executedBy: resolveAuthor(),
+          toolVersion: getToolVersion(),
+          checksum: computeMigrationChecksum(versionPath) ?? undefined,
+          source: 'run' as const,
+        };
+        await recordMigration(databases, config, migration.id, version, {
+          ...runDetails,
+          status: 'running',
+        });
+
+        try {
+          // 3. Schema sync.
+          const snapshotPath = path.join(versionPath, snapshotFilename);
+          if (fs.existsSync(snapshotPath)) {
+            logger.info(`Pushing schema snapshot for ${version}...`);
+            try {
+              await pushSchemaSnapshot(snapshotPath, config, logger, {
+                allowDestructive: migration.allowDestructive,
+              });
+            } catch (error: any) {
+              throw new SchemaPushError(`Schema push failed: ${error.message}`, {
+                cause: error,
+                version,
+              });
+            }
+          } else {
+            logger.warn(`No ${snapshotFilename} found in ${version}. Skipping schema sync.`);
+          }
+
+          // 5. Attribute polling.
+          if (fs.existsSync(snapshotPath)) {
+            await waitForAttributes(databases, snapshotPath, logger);
+          }
+          await runHooks(hooks, hookContext('afterPush', entry));
+
+          // 6. Data execution.
+          logger.info('Executing migration script...');
+          const context = createContext(version, migration, client, config, logger);
+
+          await runHooks(hooks, hookContext('beforeUp', entry));
+          if (migration.up) {
+            try {
+              await migration.up(context);
+            } catch (error) {
+              throw new MigrationScriptError(
+                `Migration script for ${version} failed: ${(error as Error).message}`,
+                { cause: error, version },
+              );
+            }
+          }
+        } catch (error) {
+          await recordMigration(databases, config, migration.id, version, {
+            ...runDetails,
+            status: 'failed',
+            durationMs: Date.now() - startedAt,
+            error: (error as Error).message,
+          }).catch((recordError) =>
+            logger.warn(`Failed to record failure of ${version}: ${recordError.message}`),
+          );
+          throw error;
+        }
+
+        // 7. Finalization.
+        logger.info('Finalizing...');
+        const durationMs = Date.now() - startedAt;
+        await recordMigration(databases, config, migration.id, version, {
+          ...runDetails,
+          status: 'succeeded',
+          durationMs,
+        });
+        applied.push({ version, id: migration.id, durationMs });
+
+        logger.success(`Version ${version} applied successfully.`);
+
+        await runHooks(hooks, hookContext('afterUp', entry));
+      }
+
+      current = undefined;
+      await runHooks(hooks, hookContext('afterAll'));
+    } catch (error) {
+      await runHooks(hooks, hookContext('onError', current, error as Error)).catch((hookError) =>
+        logger.warn(`onError hook failed: ${hookError.message}`),
+      );
+      throw error;
+    }
+
+    logger.success('All migrations applied.');
+    return { dryRun: false, applied, skipped, plan: [], durationMs: Date.now() - runStartedAt };
+  } finally {
+    await lock?.release();
+  }
+};
+
+export interface RollbackOptions extends TargetOptions, LoggerOptions {
+  /** Roll back every applied version after this one (e.g. `v3`). */
+  to?: string;
+  /** Number of applied versions to roll back (default: 1). */
+  steps?: number;
+}
+
+export interface RollbackResult {
+  /** Versions rolled back by this run, newest first. */
+  rolledBack: VersionTiming[];
+  durationMs: number;
+}
+
+/**
+ * Roll back applied migrations in reverse order.
+ *
+ * For each version: runs its `down` function, pushes the snapshot of the newest earlier version
+ * that has one so the schema is reverted too, then removes the version's tracking record.
+ * Refuses to start if any of the selected versions has no `down` function.
+ */
+export const rollbackMigrations = async (
+  envPath: string = '.env',
+  options: RollbackOptions = {},
+): Promise<RollbackResult> => {
+  const logger = options.logger ?? consoleLogger;
+  const rollbackStartedAt = Date.now();
+
+  if (options.to !== undefined && options.steps !== undefined) {
+    throw new AppwriteCtlError('Use either --to or --steps, not both.');
+  }
+
+  const steps = options.steps ?? 1;
+  if (options.to === undefined && (!Number.isInteger(steps) || steps < 1)) {
+    throw new AppwriteCtlError(`Invalid number of steps: ${options.steps}`);
+  }
+
+  const config = loadConfig(envPath, logger, options.target);
+  const { client, databases } = createAppwriteClient(config, logger);
+
+  logger.info('Starting rollback process...');
+
+  await ensureMigrationCollection(databases, config, logger);
+  const lock = await acquireLock(databases, config, { logger });
+
+  try {
+    const migrationsDir = getMigrationsDir();
+    if (!fs.existsSync(migrationsDir)) {
+      throw new AppwriteCtlError(`Migrations directory not found at ${migrationsDir}`);
+    }
+
+    const versionDirs = discoverVersions(migrationsDir);
+
+    if (options.to !== undefined && !versionDirs.includes(options.to)) {
+      throw new MigrationStateError(`Version directory ${options.to} not found.`, {
+        version: options.to,
+      });
+    }
+
+    const appliedSet = new Set(await getAppliedMigrations(databases, config));
+
+    // Collect applied versions in ascending order.
+    const applied: { version: string; migration: Migration }[] = [];
+    for (const version of versionDirs) {
+      const indexFile = resolveIndexFile(path.join(migrationsDir, version));
+      if (!indexFile) continue;
+
+      const migration = await loadMigration(version, indexFile);
+      if (appliedSet.has(migration.id)) {
+        applied.push({ version, migration });
+      }
+    }
+
+    const targets =
+      options.to !== undefined
+        ? applied.filter(
+            ({ version }) => versionDirs.indexOf(version) > versionDirs.indexOf(options.to!),
+          )
+        : applied.slice(-steps);
+
+    if (targets.length === 0) {
+      logger.info('Nothing to roll back.');
+      return { rolledBack: [], durationMs: Date.now() - rollbackStartedAt };
+    }
+
+    // Refuse before touching anything if a version cannot be reverted.
+    const irreversible = targets.filter(({ migration }) => !migration.down);
+    if (irreversible.length > 0) {
+      throw new MigrationStateError(
+        `Cannot roll back: no down function in ${irreversible.map(({ version }) => version).join(', ')}.`,
+      );
+    }
+
+    const snapshotFilename = getSnapshotFilename();
+    const rolledBack: VersionTiming[] = [];
+
+    for (const { version, migration } of targets.reverse()) {
+      logger.info(`Rolling back version ${version} (${migration.id})...`);
+      const startedAt = Date.now();
+
+      // 1. Data revert.
+      logger.info('Executing down script...');
       try {
-        await migration.up(context);
+        await migration.down!(createContext(version, migration, client, config, logger));
       } catch (error) {
-        console.error('Migration script failed:', error);
-        process.exit(1);
+        throw new MigrationScriptError(
+          `Rollback script for ${version} failed: ${(error as Error).message}`,
+          { cause: error, version },
+        );
+      }
+
+      // 2. Schema revert to the newest earlier snapshot. Versions without a snapshot push
+      // nothing, so the schema before this version is the last snapshot pushed.
+      const previous = versionDirs
+        .slice(0, versionDirs.indexOf(version))
+        .map((candidate) => ({
+          version: candidate,
+          snapshotPath: path.join(migrationsDir, candidate, snapshotFilename),
+        }))
+        .filter(({ snapshotPath }) => fs.existsSync(snapshotPath))
+        .pop();
+
+      if (previous) {
+        const { version: previousVersion, snapshotPath: previousSnapshot } = previous;
+        logger.info(`Pushing schema snapshot of ${previousVersion}...`);
+        try {
+          await pushSchemaSnapshot(previousSnapshot, config, logger);
+        } catch (error: any) {
+          throw new SchemaPushError(`Schema push failed: ${error.message}`, {
+            cause: error,
+            version,
+          });
+        }
+        await waitForAttributes(databases, previousSnapshot, logger);
+      } else {
+        logger.warn(
+          `No version before ${version} has a ${snapshotFilename}. ` +
+            'The schema is left as it is; revert it by hand if needed.',
+        );
+      }
+
+      // 3. Finalization.
+      const durationMs = Date.now() - startedAt;
+      await recordMigration(databases, config, migration.id, version, {
+        status: 'rolled-back',
+        durationMs,
+        executedBy: resolveAuthor(),
+        toolVersion: getToolVersion(),
+        checksum: computeMigrationChecksum(path.join(migrationsDir, version)) ?? undefined,
+        source: 'rollback',
+      });
+      rolledBack.push({ version, id: migration.id, durationMs });
+
+      logger.success(`Version ${version} rolled back successfully.`);
+    }
+
+    logger.success('Rollback complete.');
+    return { rolledBack, durationMs: Date.now() - rollbackStartedAt };
+  } finally {
+    await lock.release();
+  }
+};
+
+export interface RebaseOptions extends TargetOptions, LoggerOptions {
+  /** Only report the renames without touching any directory. */
+  dryRun?: boolean;
+}
+
+export interface RebaseResult {
+  /** Renamed version directories, in their new order. */
+  renamed: { from: string; to: string }[];
+}
+
+/**
+ * Renumber unapplied local versions so they run after every applied version.
+ *
+ * After a merge, versions created on another branch can be ordered before versions that are
+ * already applied, or share a number with one. Such pending versions are moved after the newest
+ * version, keeping their relative order and using the configured naming scheme. Applied versions
+ * are never renamed.
+ */
+export const rebaseMigrations = async (
+  envPath: string = '.env',
+  options: RebaseOptions = {},
+): Promise<RebaseResult> => {
+  const logger = options.logger ?? consoleLogger;
+  const config = loadConfig(envPath, logger, options.target);
+  const { databases } = createAppwriteClient(config, logger);
+
+  const migrationsDir = getMigrationsDir();
+  if (!fs.existsSync(migrationsDir)) {
+    throw new AppwriteCtlError(`Migrations directory not found at ${migrationsDir}`);
+  }
+
+  const versionDirs = discoverVersions(migrationsDir);
+  const appliedIds = new Set(await getAppliedMigrations(databases, config));
+
+  const appliedVersions = new Set<string>();
+  for (const version of versionDirs) {
+    const indexFile = resolveIndexFile(path.join(migrationsDir, version));
+    if (!indexFile) continue;
+
+    const migration = await loadMigration(version, indexFile);
+    if (appliedIds.has(migration.id)) appliedVersions.add(version);
+  }
+
+  // Positions taken by applied versions; the first pending version at a free position keeps it.
+  const outOfOrder = new Set(
+    findOutOfOrderVersions(
+      versionDirs.map((version) => ({ version })),
+      appliedVersions,
+    ),
+  );
+  const taken = new Set(
+    versionDirs.filter((version) => appliedVersions.has(version)).map((v) => parseVersion(v)),
+  );
+  const toMove: string[] = [];
+  for (const version of versionDirs) {
+    if (appliedVersions.has(version)) continue;
+    if (outOfOrder.has(version) || taken.has(parseVersion(version))) {
+      toMove.push(version);
+    } else {
+      taken.add(parseVersion(version));
+    }
+  }
+
+  if (toMove.length === 0) {
+    logger.info('Versions are already in order. Nothing to rebase.');
+    return { renamed: [] };
+  }
+
+  const newNames = nextVersionNames(versionDirs, getVersionNaming(), toMove.length);
+  const renamed = toMove.map((from, index) => ({ from, to: newNames[index] }));
+
+  for (const { from, to } of renamed) {
+    logger.info(`${options.dryRun ? 'Would rename' : 'Renaming'} ${from} -> ${to}`);
+    if (options.dryRun) continue;
+
+    const versionPath = path.join(migrationsDir, to);
+    fs.renameSync(path.join(migrationsDir, from), versionPath);
+
+    // Generated docs carry the version name in their title.
+    if (fs.existsSync(path.join(versionPath, 'docs.md'))) {
+      writeSchemaDocs(path.join(versionPath, getSnapshotFilename()), to, versionPath, logger);
+    }
+  }
+
+  if (!options.dryRun) {
+    logger.success(`Rebased ${renamed.length} versions.`);
+  }
+  return { renamed };
+};
+
+export interface FormatOptions extends LoggerOptions {
+  /** Versions whose snapshot is formatted. Defaults to every version. */
+  versions?: string[];
+  /** Only report snapshots that are not in canonical form, without rewriting them. */
+  check?: boolean;
+}
+
+export interface FormatResult {
+  /** Versions whose snapshot was rewritten (or, with `check`, is not in canonical form). */
+  formatted: string[];
+  /** Versions whose snapshot was already in canonical form. */
+  unchanged: string[];
+}
+
+/**
+ * Rewrite version snapshots in canonical form (see `normalizeSnapshot`). Works offline.
+ * Checksums cover the canonical form, so formatting an applied version does not mark it as
+ * modified.
+ */
+export const formatSnapshots = (options: FormatOptions = {}): FormatResult => {
+  const logger = options.logger ?? consoleLogger;
+  const migrationsDir = getMigrationsDir();
+  if (!fs.existsSync(migrationsDir)) {
+    throw new AppwriteCtlError(`Migrations directory not found at ${migrationsDir}`);
+  }
+
+  const versionDirs = discoverVersions(migrationsDir);
+  for (const version of options.versions ?? []) {
+    if (!versionDirs.includes(version)) {
+      throw new AppwriteCtlError(`Version directory ${version} not found.`, { version });
+    }
+  }
+
+  const result: FormatResult = { formatted: [], unchanged: [] };
+  for (const version of options.versions ?? versionDirs) {
+    const snapshotPath = path.join(migrationsDir, version, getSnapshotFilename());
+    if (!fs.existsSync(snapshotPath)) continue;
+
+    let changed: boolean;
+    try {
+      changed = formatSnapshotFile(snapshotPath, options.check);
+    } catch (error) {
+      throw new AppwriteCtlError(
+        `Failed to format ${version} snapshot: ${(error as Error).message}`,
+        { cause: error, version },
+      );
+    }
+
+    if (changed) {
+      logger.info(`${options.check ? 'Not formatted' : 'Formatted'}: ${version}`);
+      result.formatted.push(version);
+    } else {
+      result.unchanged.push(version);
+    }
+  }
+
+  if (!options.check && result.formatted.length > 0) {
+    logger.success(`Formatted ${result.formatted.length} snapshots.`);
+  }
+  return result;
+};
+
+export interface BaselineOptions extends TargetOptions, LoggerOptions {
+  /** Pull the live schema as the baseline version's snapshot before recording it. */
+  pull?: boolean;
+}
+
+export interface BaselineResult {
+  /** Versions recorded as applied by this call, in order. */
+  baselined: string[];
+  /** Versions up to the baseline that were already applied. */
+  alreadyApplied: string[];
+}
+
+/**
+ * Adopt appwrite-ctl on an existing project: record every version up to and including
+ * `version` as applied, without pushing snapshots or running `up`.
+ *
+ * With `pull`, the live schema is first pulled as that version's snapshot, so it describes the
+ * project as it actually is.
+ */
+export const baselineMigrations = async (
+  envPath: string = '.env',
+  version: string,
+  options: BaselineOptions = {},
+): Promise<BaselineResult> => {
+  const logger = options.logger ?? consoleLogger;
+  const config = loadConfig(envPath, logger, options.target);
+  const { databases } = createAppwriteClient(config, logger);
+
+  const migrationsDir = getMigrationsDir();
+  if (!fs.existsSync(migrationsDir)) {
+    throw new AppwriteCtlError(`Migrations directory not found at ${migrationsDir}`);
+  }
+
+  const versionDirs = discoverVersions(migrationsDir);
+  assertVersionsOrderable(migrationsDir, versionDirs);
+
+  const targetIndex = versionDirs.indexOf(version);
+  if (targetIndex === -1) {
+    throw new MigrationStateError(`Version directory ${version} not found.`, { version });
+  }
+
+  await ensureMigrationCollection(databases, config, logger);
+  const lock = await acquireLock(databases, config, { logger });
+
+  try {
+    const targetPath = path.join(migrationsDir, version);
+    if (options.pull) {
+      logger.info(`Pulling live schema as the snapshot of ${version}...`);
+      const snapshotPath = await pullSchemaFile(config, targetPath, logger);
+      writeSchemaDocs(snapshotPath, version, targetPath, logger);
+    }
+
+    const appliedIds = new Set(await getAppliedMigrations(databases, config));
+    const baselined: string[] = [];
+    const alreadyApplied: string[] = [];
+
+    const loaded: PendingVersion[] = [];
+    for (const baselineVersion of versionDirs.slice(0, targetIndex + 1)) {
+      const versionPath = path.join(migrationsDir, baselineVersion);
+      const indexFile = resolveIndexFile(versionPath);
+      if (!indexFile) {
+        throw new MigrationStateError(`Version ${baselineVersion} has no index.ts or index.js.`, {
+          version: baselineVersion,
+        });
+      }
+      loaded.push({
+        version: baselineVersion,
+        versionPath,
+        migration: await loadMigration(baselineVersion, indexFile),
+      });
+    }
+    assertUniqueMigrationIds(loaded);
+
+    for (const { version: baselineVersion, versionPath, migration } of loaded) {
+      if (appliedIds.has(migration.id)) {
+        alreadyApplied.push(baselineVersion);
+        continue;
       }
+
+      await recordMigration(databases, config, migration.id, baselineVersion, {
+        status: 'succeeded',
+        durationMs: 0,
+        executedBy: resolveAuthor(),
+        toolVersion: getToolVersion(),
+        checksum: computeMigrationChecksum(versionPath) ?? undefined,
+        source: 'baseline',
+      });
+      baselined.push(baselineVersion);
+      logger.info(`Recorded ${baselineVersion} (${migration.id}) as applied.`);
+    }
+
+    if (baselined.length === 0) {
+      logger.info(`Every version up to ${version} is already applied.`);
+    } else {
+      logger.success(`Baselined ${baselined.length} versions up to ${version}.`);
+    }
+    return { baselined, alreadyApplied };
+  } finally {
+    await lock.release();
+  }
+};
+
+export interface ManualStateOptions extends TargetOptions, LoggerOptions {}
+
+export interface ManualStateResult {
+  version: string;
+  id: string;
+  /** False if the version already was in the requested state. */
+  changed: boolean;
+  /** Author recorded for the change. */
+  author: string;
+}
+
+/**
+ * Load a single version for a manual state change; it must exist and load.
+ */
+const loadVersionForRepair = async (version: string) => {
+  const versionPath = path.join(getMigrationsDir(), version);
+  const indexFile = fs.existsSync(versionPath) ? resolveIndexFile(versionPath) : null;
+  if (!indexFile) {
+    throw new MigrationStateError(`Version ${version} not found or has no index.ts / index.js.`, {
+      version,
+    });
+  }
+  return { versionPath, migration: await loadMigration(version, indexFile) };
+};
+
+/**
+ * Record a version as applied without running it, e.g. after its changes were made by hand.
+ * The record keeps the author and is marked as `mark-applied` in the history.
+ */
+export const markMigrationApplied = async (
+  envPath: string = '.env',
+  version: string,
+  options: ManualStateOptions = {},
+): Promise<ManualStateResult> => {
+  const logger = options.logger ?? consoleLogger;
+  const config = loadConfig(envPath, logger, options.target);
+  const { databases } = createAppwriteClient(config, logger);
+  const { versionPath, migration } = await loadVersionForRepair(version);
+  const author = resolveAuthor();
+
+  await ensureMigrationCollection(databases, config, logger);
+  const lock = await acquireLock(databases, config, { logger });
+
+  try {
+    const applied = await getAppliedMigrations(databases, config);
+    if (applied.includes(migration.id)) {
+      logger.info(`Version ${version} (${migration.id}) is already applied.`);
+      return { version, id: migration.id, changed: false, author };
+    }
+
+    await recordMigration(databases, config, migration.id, version, {
+      status: 'succeeded',
+      durationMs: 0,
+      executedBy: author,
+      toolVersion: getToolVersion(),
+      checksum: computeMigrationChecksum(versionPath) ?? undefined,
+      source: 'mark-applied',
+    });
+    logger.success(`Marked ${version} (${migration.id}) as applied by ${author}.`);
+    return { version, id: migration.id, changed: true, author };
+  } finally {
+    await lock.release();
+  }
+};
+
+/**
+ * Reset an applied version to pending without running its `down` function, so the next run
+ * applies it again. The tracking record is kept with status `unmarked` and the author, so the
+ * repair stays visible in the history.
+ */
+export const unmarkMigration = async (
+  envPath: string = '.env',
+  version: string,
+  options: ManualStateOptions = {},
+): Promise<ManualStateResult> => {
+  const logger = options.logger ?? consoleLogger;
+  const config = loadConfig(envPath, logger, options.target);
+  const { databases } = createAppwriteClient(config, logger);
+  const { versionPath, migration } = await loadVersionForRepair(version);
+  const author = resolveAuthor();
+
+  await ensureMigrationCollection(databases, config, logger);
+  const lock = await acquireLock(databases, config, { logger });
+
+  try {
+    const record = (await getLatestMigrationRecords(databases, config)).get(migration.id);
+    if (!record || record.status === 'unmarked' || record.status === 'rolled-back') {
+      logger.info(`Version ${version} (${migration.id}) has no tracking record to unmark.`);
+      return { version, id: migration.id, changed: false, author };
+    }
+
+    await recordMigration(databases, config, migration.id, version, {
+      status: 'unmarked',
+      executedBy: author,
+      toolVersion: getToolVersion(),
+      checksum: computeMigrationChecksum(versionPath) ?? undefined,
+      source: 'unmark',
+    });
+    logger.success(`Unmarked ${version} (${migration.id}) by ${author}. It is pending again.`);
+    return { version, id: migration.id, changed: true, author };
+  } finally {
+    await lock.release();
+  }
+};
+
+/**
+ * State of a local version:
+ * - `applied`: recorded as succeeded and unchanged since
+ * - `modified`: applied, but its files changed afterwards
+ * - `pending`: never run
+ * - `running` / `failed`: the last run is in progress or failed
+ * - `invalid`: the migration file cannot be loaded
+ */
+export type VersionState = 'applied' | 'modified' | 'pending' | 'running' | 'failed' | 'invalid';
+
+export interface VersionStatus {
+  version: string;
+  /** Migration ID, or null if the migration could not be loaded. */
+  id: string | null;
+  description?: string;
+  status: VersionState;
+  /** Date of the last recorded run, if any. */
+  appliedAt?: string;
+  executedBy?: string;
+  /** Why the migration could not be loaded (`invalid` only). */
+  error?: string;
+}
+
+export interface MigrationStatusReport {
+  versions: VersionStatus[];
+  /** Tracking records whose migration ID matches no local version. */
+  orphans: MigrationRecord[];
+}
+
+export interface StatusOptions extends TargetOptions, LoggerOptions {}
+
+/**
+ * Compare the local migration versions with the tracking collection.
+ * Versions are loaded the same way the runner loads them.
+ */
+export const getMigrationStatus = async (
+  envPath: string = '.env',
+  options: StatusOptions = {},
+): Promise<MigrationStatusReport> => {
+  const logger = options.logger ?? consoleLogger;
+  const config = loadConfig(envPath, logger, options.target);
+  const { databases } = createAppwriteClient(config, logger);
+  const records = await getLatestMigrationRecords(databases, config);
+
+  const migrationsDir = getMigrationsDir();
+  const versionDirs = fs.existsSync(migrationsDir) ? discoverVersions(migrationsDir) : [];
+  if (versionDirs.length === 0) {
+    logger.info('No migration versions found.');
+  }
+
+  const versions: VersionStatus[] = [];
+  for (const version of versionDirs) {
+    const versionPath = path.join(migrationsDir, version);
+    const indexFile = resolveIndexFile(versionPath);
+    if (!indexFile) {
+      versions.push({ version, id: null, status: 'invalid', error: 'No index.ts or index.js.' });
+      continue;
     }
 
-    // 7. Finalization.
-    console.log('Finalizing...');
-    await recordMigration(databases, config, migration.id, version);
+    let migration: Migration;
+    try {
+      migration = await loadMigration(version, indexFile);
+    } catch (error) {
+      versions.push({ version, id: null, status: 'invalid', error: (error as Error).message });
+      continue;
+    }
 
-    console.log(`Version ${version} applied successfully.`);
+    const record = records.get(migration.id);
+    const status: VersionState =
+      !record || record.status === 'unmarked' || record.status === 'rolled-back'
+        ? 'pending'
+        : !isMigrationApplied(record)
+          ? (record.status as 'running' | 'failed')
+          : isModified(record, versionPath)
+            ? 'modified'
+            : 'applied';
+    versions.push({
+      version,
+      id: migration.id,
+      description: migration.description,
+      status,
+      appliedAt: record?.appliedAt,
+      executedBy: record?.executedBy,
+    });
   }
 
-  console.log('All migrations applied.');
+  const localIds = new Set(versions.map(({ id }) => id));
+  const orphans = [...records.values()].filter((record) => !localIds.has(record.id));
+
+  return { versions, orphans };
 };
 
-async function waitForAttributes(databases: Databases, snapshotPath: string) {
-  console.log('Polling attribute status...');
+async function waitForAttributes(
+  databases: Databases,
+  snapshotPath: string,
+  logger: OperationLogger,
+) {
+  logger.info('Polling attribute status...');
 
   const MAX_ATTEMPTS = 60; // 60 × 2 s = 2-minute timeout per collection
 
   let schema: any;
   try {
     schema = JSON.parse(fs.readFileSync(snapshotPath, 'utf8'));
-  } catch (e) {
-    console.error('Failed to parse snapshot for attribute polling');
+  } catch {
+    logger.error('Failed to parse snapshot for attribute polling');
     return;
   }
 
@@ -164,20 +1464,18 @@ async function waitForAttributes(databases: Databases, snapshotPath: string) {
     const databaseId = table.databaseId;
 
     if (!databaseId) {
-      console.warn(`Table ${table.name} (${collectionId}) has no databaseId. Skipping polling.`);
+      logger.warn(`Table ${table.name} (${collectionId}) has no databaseId. Skipping polling.`);
       continue;
     }
 
-    console.log(`Checking attributes for table ${table.name} (${collectionId})...`);
+    logger.info(`Checking attributes for table ${table.name} (${collectionId})...`);
 
     let allAvailable = false;
     let attempts = 0;
     while (!allAvailable) {
       if (attempts >= MAX_ATTEMPTS) {
-        console.warn(
-          chalk.yellow(
-            `  ⚠ Timed out waiting for attributes on ${collectionId} after ${MAX_ATTEMPTS} attempts. Proceeding anyway.`,
-          ),
+        logger.warn(
+          `  ⚠ Timed out waiting for attributes on ${collectionId} after ${MAX_ATTEMPTS} attempts. Proceeding anyway.`,
         );
         break;
       }
@@ -190,19 +1488,17 @@ async function waitForAttributes(databases: Databases, snapshotPath: string) {
         if (pending.length === 0) {
           allAvailable = true;
         } else {
-          console.log(`Waiting for ${pending.length} attributes to be available...`);
+          logger.info(`Waiting for ${pending.length} attributes to be available...`);
           await new Promise((resolve) => setTimeout(resolve, 2000));
         }
       } catch (e: any) {
         if (e.code === 500) {
-          console.warn(
-            chalk.red(
-              `  ⚠ Failed to list attributes for ${collectionId} in DB ${databaseId}: Server Error. Skipping polling for this collection.`,
-            ),
+          logger.error(
+            `  ⚠ Failed to list attributes for ${collectionId} in DB ${databaseId}: Server Error. Skipping polling for this collection.`,
           );
           allAvailable = true; // Force exit loop
         } else {
-          console.warn(
+          logger.warn(
             `Failed to list attributes for ${collectionId} in DB ${databaseId}: ${e.message}. Retrying...`,
           );
           await new Promise((resolve) => setTimeout(resolve, 2000));
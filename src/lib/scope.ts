@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import { ConfigError } from './errors.js';
+import type { Snapshot } from '../types/index.js';
+
+/**
+ * Resource types synced with Appwrite. `tables` covers databases, tables, columns and indexes.
+ */
+export type SchemaResource = 'tables' | 'buckets' | 'teams' | 'topics';
+
+export const SCHEMA_RESOURCES: SchemaResource[] = ['tables', 'buckets', 'teams', 'topics'];
+
+/**
+ * Resources whose IDs can be filtered. Table patterns match `databaseId/tableId`.
+ */
+export type FilteredResource = 'databases' | 'tables' | 'buckets' | 'teams' | 'topics';
+
+const FILTERED_RESOURCES: FilteredResource[] = [
+  'databases',
+  'tables',
+  'buckets',
+  'teams',
+  'topics',
+];
+
+/**
+ * ID patterns of one resource type. `*` matches any sequence of characters.
+ * Without `include`, every ID is included; `exclude` wins over `include`.
+ */
+export interface IdFilter {
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface ResourceScope {
+  /** Resource types that are pulled, pushed, documented and diffed. */
+  resources: SchemaResource[];
+  filters: Partial<Record<FilteredResource, IdFilter>>;
+}
+
+export const DEFAULT_SCOPE: ResourceScope = { resources: SCHEMA_RESOURCES, filters: {} };
+
+const parsePatterns = (value: unknown, label: string): string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((pattern) => typeof pattern !== 'string')) {
+    throw new ConfigError(`"${label}" in appwrite-ctl.config.json must be a list of patterns.`);
+  }
+  return value;
+};
+
+/**
+ * Validate the `resources` and `filters` settings of appwrite-ctl.config.json.
+ */
+export const parseResourceScope = (resources: unknown, filters: unknown): ResourceScope => {
+  if (
+    resources !== undefined &&
+    (!Array.isArray(resources) ||
+      resources.some((type) => !SCHEMA_RESOURCES.includes(type as SchemaResource)))
+  ) {
+    throw new ConfigError(
+      `"resources" in appwrite-ctl.config.json must be a list of: ${SCHEMA_RESOURCES.join(', ')}.`,
+    );
+  }
+  if (
+    filters !== undefined &&
+    (!filters || typeof filters !== 'object' || Array.isArray(filters))
+  ) {
+    throw new ConfigError('"filters" in appwrite-ctl.config.json must be an object.');
+  }
+
+  const scope: ResourceScope = {
+    resources: (resources as SchemaResource[] | undefined) ?? SCHEMA_RESOURCES,
+    filters: {},
+  };
+  for (const [type, filter] of Object.entries(filters ?? {})) {
+    if (!FILTERED_RESOURCES.includes(type as FilteredResource)) {
+      throw new ConfigError(
+        `Unknown filter '${type}' in appwrite-ctl.config.json. ` +
+          `Expected one of: ${FILTERED_RESOURCES.join(', ')}.`,
+      );
+    }
+    if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+      throw new ConfigError(`"filters.${type}" must be an object with include and/or exclude.`);
+    }
+    scope.filters[type as FilteredResource] = {
+      include: parsePatterns(filter.include, `filters.${type}.include`),
+      exclude: parsePatterns(filter.exclude, `filters.${type}.exclude`),
+    };
+  }
+  return scope;
+};
+
+/**
+ * Read the resource scope from appwrite-ctl.config.json. Does not require Appwrite credentials,
+ * so docs and diffs of stored snapshots work offline.
+ */
+export const loadResourceScope = (): ResourceScope => {
+  const configPath = path.join(process.cwd(), 'appwrite', 'appwrite-ctl.config.json');
+  if (!fs.existsSync(configPath)) return DEFAULT_SCOPE;
+
+  let cfg: any;
+  try {
+    cfg = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch {
+    // Ignore parse errors, keep default
+    return DEFAULT_SCOPE;
+  }
+  return parseResourceScope(cfg.resources, cfg.filters);
+};
+
+const matchesPattern = (id: string, pattern: string): boolean =>
+  new RegExp(
+    `^${pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'))
+      .join('.*')}$`,
+  ).test(id);
+
+/**
+ * Whether a resource ID passes the filter of its type.
+ */
+export const isInScope = (scope: ResourceScope, type: FilteredResource, id: string): boolean => {
+  const { include, exclude } = scope.filters[type] ?? {};
+  if (include && !include.some((pattern) => matchesPattern(id, pattern))) return false;
+  return !exclude?.some((pattern) => matchesPattern(id, pattern));
+};
+
+/**
+ * Restrict a snapshot to the resource scope: resource types outside of it are emptied and
+ * filtered IDs are removed. Tables of excluded databases are removed with them.
+ */
+export const scopeSnapshot = (snapshot: Snapshot, scope: ResourceScope): Snapshot => {
+  const synced = (type: SchemaResource) => scope.resources.includes(type);
+  const tablesDB = synced('tables')
+    ? snapshot.tablesDB.filter((database) => isInScope(scope, 'databases', database.$id))
+    : [];
+  const databaseIds = new Set(tablesDB.map((database) => database.$id));
+
+  return {
+    ...snapshot,
+    tablesDB,
+    tables: snapshot.tables.filter(
+      (table) =>
+        databaseIds.has(table.databaseId) &&
+        isInScope(scope, 'tables', `${table.databaseId}/${table.$id}`),
+    ),
+    buckets: synced('buckets')
+      ? snapshot.buckets.filter((bucket) => isInScope(scope, 'buckets', bucket.$id))
+      : [],
+    teams: synced('teams')
+      ? snapshot.teams.filter((team) => isInScope(scope, 'teams', team.$id))
+      : [],
+    topics: synced('topics')
+      ? snapshot.topics.filter((topic) => isInScope(scope, 'topics', topic.$id))
+      : [],
+  };
+};
@@ -0,0 +1,165 @@
+import fs from 'fs';
+
+// Top-level sections in the order `appwrite pull` writes them; unknown sections follow sorted.
+const SECTION_ORDER = [
+  'projectId',
+  'projectName',
+  'settings',
+  'tablesDB',
+  'tables',
+  'buckets',
+  'teams',
+  'topics',
+];
+
+// Fields the server maintains, which change without any schema change.
+const SERVER_MANAGED_FIELDS = new Set(['$createdAt', '$updatedAt', 'status', 'error']);
+
+// Counters of teams and topics, which change with their members and subscribers.
+const COUNTER_FIELDS = new Set(['total', 'emailTotal', 'smsTotal', 'pushTotal']);
+
+// Identity fields are written first; the remaining fields are sorted.
+const LEADING_FIELDS = ['$id', 'key'];
+
+type Resource = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Resource =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const compareStrings = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+const compareKeys = (a: string, b: string): number => {
+  const rank = (key: string) => {
+    const index = LEADING_FIELDS.indexOf(key);
+    return index === -1 ? LEADING_FIELDS.length : index;
+  };
+  return rank(a) - rank(b) || compareStrings(a, b);
+};
+
+/**
+ * Recursively sort object keys, keeping array order.
+ */
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (!isObject(value)) return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort(compareKeys)
+      .map((key) => [key, sortKeys(value[key])]),
+  );
+};
+
+const sortBy = (items: unknown, keyOf: (item: Resource) => string): unknown => {
+  if (!Array.isArray(items)) return items;
+  return [...items].sort((a, b) => compareStrings(keyOf(a ?? {}), keyOf(b ?? {})));
+};
+
+/**
+ * Drop server-managed fields and sort the permissions of a resource.
+ */
+const cleanResource = (
+  resource: unknown,
+  ignored: Set<string> = SERVER_MANAGED_FIELDS,
+): unknown => {
+  if (!isObject(resource)) return resource;
+  const cleaned = Object.fromEntries(Object.entries(resource).filter(([key]) => !ignored.has(key)));
+  if (Array.isArray(cleaned.$permissions)) cleaned.$permissions = [...cleaned.$permissions].sort();
+  return cleaned;
+};
+
+const cleanTable = (table: unknown): unknown => {
+  const cleaned = cleanResource(table);
+  if (!isObject(cleaned)) return cleaned;
+  if (Array.isArray(cleaned.columns)) {
+    cleaned.columns = sortBy(
+      cleaned.columns.map((column) => cleanResource(column)),
+      (c) => String(c.key),
+    );
+  }
+  if (Array.isArray(cleaned.indexes)) {
+    cleaned.indexes = sortBy(
+      cleaned.indexes.map((index) => cleanResource(index)),
+      (i) => String(i.key),
+    );
+  }
+  return cleaned;
+};
+
+/**
+ * Bring a snapshot into canonical form, so that pulling an unchanged schema always yields the
+ * same file: server-managed fields are dropped, resources are sorted by ID, columns and indexes
+ * by key, permissions alphabetically, and object keys are ordered. Order-sensitive lists such
+ * as index columns and enum elements keep their order.
+ */
+export const normalizeSnapshot = <T extends object>(snapshot: T): T => {
+  const data = snapshot as Resource;
+  const counted = new Set([...SERVER_MANAGED_FIELDS, ...COUNTER_FIELDS]);
+  const sections: Resource = {
+    ...data,
+    tablesDB:
+      data.tablesDB &&
+      sortBy(
+        (data.tablesDB as unknown[]).map((database) => cleanResource(database)),
+        (database) => String(database.$id),
+      ),
+    tables:
+      data.tables &&
+      sortBy(
+        (data.tables as unknown[]).map(cleanTable),
+        (table) => `${table.databaseId}/${table.$id}`,
+      ),
+    buckets:
+      data.buckets &&
+      sortBy(
+        (data.buckets as unknown[]).map((bucket) => cleanResource(bucket)),
+        (bucket) => String(bucket.$id),
+      ),
+    teams:
+      data.teams &&
+      sortBy(
+        (data.teams as unknown[]).map((team) => cleanResource(team, counted)),
+        (team) => String(team.$id),
+      ),
+    topics:
+      data.topics &&
+      sortBy(
+        (data.topics as unknown[]).map((topic) => cleanResource(topic, counted)),
+        (topic) => String(topic.$id),
+      ),
+  };
+
+  const order = (key: string) => {
+    const index = SECTION_ORDER.indexOf(key);
+    return index === -1 ? SECTION_ORDER.length : index;
+  };
+  const keys = Object.keys(sections)
+    .filter((key) => sections[key] !== undefined)
+    .sort((a, b) => order(a) - order(b) || compareStrings(a, b));
+  return Object.fromEntries(keys.map((key) => [key, sortKeys(sections[key])])) as T;
+};
+
+/**
+ * Serialize a snapshot in canonical form: normalized, indented by two spaces, with a
+ * trailing newline.
+ */
+export const serializeSnapshot = (snapshot: object): string =>
+  JSON.stringify(normalizeSnapshot(snapshot), null, 2) + '\n';
+
+/**
+ * Write a snapshot file in canonical form.
+ */
+export const writeSnapshot = (snapshotPath: string, snapshot: object): void => {
+  fs.writeFileSync(snapshotPath, serializeSnapshot(snapshot));
+};
+
+/**
+ * Rewrite a snapshot file in canonical form. Returns whether its content changed; with
+ * `check`, the file is left untouched and the result tells whether it would change.
+ */
+export const formatSnapshotFile = (snapshotPath: string, check = false): boolean => {
+  const content = fs.readFileSync(snapshotPath, 'utf8');
+  const formatted = serializeSnapshot(JSON.parse(content));
+  if (formatted === content) return false;
+  if (!check) fs.writeFileSync(snapshotPath, formatted);
+  return true;
+};
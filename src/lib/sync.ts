@@ -0,0 +1,58 @@
+import { pushSchemaSnapshot } from './apply.js';
+import { loadConfig, LoggerOptions, TargetOptions } from './config.js';
+import { consoleLogger } from './logger.js';
+import { pullSchemaFile, SchemaPuller } from './puller.js';
+
+export interface SyncOptions extends TargetOptions, LoggerOptions {}
+
+export interface PullOptions extends SyncOptions {
+  /** Directory receiving the snapshot. Defaults to the project root. */
+  targetDir?: string;
+  /** Overrides `puller` from appwrite-ctl.config.json. */
+  puller?: SchemaPuller;
+}
+
+export interface PullResult {
+  /** Path of the written snapshot. */
+  snapshotPath: string;
+  durationMs: number;
+}
+
+export interface PushResult {
+  snapshotPath: string;
+  durationMs: number;
+}
+
+/**
+ * Pull the live schema of the configured project into a snapshot file.
+ */
+export const pullSchema = async (
+  envPath: string = '.env',
+  options: PullOptions = {},
+): Promise<PullResult> => {
+  const logger = options.logger ?? consoleLogger;
+  const startedAt = Date.now();
+  const config = loadConfig(envPath, logger, options.target);
+  if (options.puller) config.puller = options.puller;
+
+  const snapshotPath = await pullSchemaFile(config, options.targetDir, logger);
+
+  return { snapshotPath, durationMs: Date.now() - startedAt };
+};
+
+/**
+ * Push a snapshot file to the configured project.
+ */
+export const pushSchema = async (
+  envPath: string,
+  snapshotPath: string,
+  options: SyncOptions = {},
+): Promise<PushResult> => {
+  const logger = options.logger ?? consoleLogger;
+  const startedAt = Date.now();
+  const config = loadConfig(envPath, logger, options.target);
+
+  await pushSchemaSnapshot(snapshotPath, config, logger);
+
+  return { snapshotPath, durationMs: Date.now() - startedAt };
+};
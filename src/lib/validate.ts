@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import { getSnapshotFilename } from './cli.js';
+import { getMigrationsDir, loadMigration, resolveIndexFile } from './runner.js';
+import { discoverVersions, findDuplicateVersions, findInvalidVersionDirs } from './versions.js';
+
+export type ValidationLevel = 'error' | 'warning';
+
+export interface ValidationIssue {
+  level: ValidationLevel;
+  /** Version directory the issue was found in; unset for issues of the whole directory. */
+  version?: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  /** Number of version directories checked. */
+  versions: number;
+  issues: ValidationIssue[];
+  /** False if any issue is an error. */
+  valid: boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Columns every table has without declaring them; indexes may reference them.
+const SYSTEM_COLUMNS = new Set(['$id', '$createdAt', '$updatedAt', '$sequence']);
+
+/**
+ * Check that a parsed snapshot has the structure written by `appwrite pull`.
+ * Returns a message per problem found.
+ */
+export const validateSnapshot = (snapshot: unknown): string[] => {
+  if (!isObject(snapshot)) return ['Snapshot must be a JSON object.'];
+
+  const problems: string[] = [];
+
+  for (const key of ['tablesDB', 'tables', 'buckets', 'teams', 'topics']) {
+    if (snapshot[key] !== undefined && !Array.isArray(snapshot[key])) {
+      problems.push(`'${key}' must be an array.`);
+    }
+  }
+  if (problems.length > 0) return problems;
+
+  const tablesDB: unknown[] = snapshot.tablesDB ?? [];
+  const tables: unknown[] = snapshot.tables ?? [];
+  const buckets: unknown[] = snapshot.buckets ?? [];
+
+  const databaseIds = new Set<string>();
+  tablesDB.forEach((db, i) => {
+    if (!isObject(db) || typeof db.$id !== 'string') {
+      problems.push(`tablesDB[${i}] has no $id.`);
+      return;
+    }
+    if (databaseIds.has(db.$id)) problems.push(`Database '${db.$id}' is declared twice.`);
+    databaseIds.add(db.$id);
+  });
+
+  const tableIds = new Set<string>();
+  tables.forEach((table, i) => {
+    if (!isObject(table) || typeof table.$id !== 'string') {
+      problems.push(`tables[${i}] has no $id.`);
+      return;
+    }
+    const label = `Table '${table.$id}'`;
+    const qualifiedId = `${table.databaseId}/${table.$id}`;
+
+    if (typeof table.databaseId !== 'string') {
+      problems.push(`${label} has no databaseId.`);
+    } else if (!databaseIds.has(table.databaseId)) {
+      problems.push(`${label} references unknown database '${table.databaseId}'.`);
+    }
+    if (tableIds.has(qualifiedId)) problems.push(`${label} is declared twice.`);
+    tableIds.add(qualifiedId);
+
+    if (!Array.isArray(table.columns)) {
+      problems.push(`${label} has no columns array.`);
+      return;
+    }
+    const columnKeys = new Set<string>();
+    table.columns.forEach((column: unknown, j: number) => {
+      if (!isObject(column) || typeof column.key !== 'string' || typeof column.type !== 'string') {
+        problems.push(`${label} column ${j} needs a key and a type.`);
+        return;
+      }
+      if (columnKeys.has(column.key)) {
+        problems.push(`${label} declares column '${column.key}' twice.`);
+      }
+      columnKeys.add(column.key);
+    });
+
+    if (table.indexes === undefined) return;
+    if (!Array.isArray(table.indexes)) {
+      problems.push(`${label} indexes must be an array.`);
+      return;
+    }
+    table.indexes.forEach((index: unknown, j: number) => {
+      if (!isObject(index) || typeof index.key !== 'string' || !Array.isArray(index.columns)) {
+        problems.push(`${label} index ${j} needs a key and a columns array.`);
+        return;
+      }
+      for (const column of index.columns) {
+        if (!columnKeys.has(column) && !SYSTEM_COLUMNS.has(column)) {
+          problems.push(`${label} index '${index.key}' references unknown column '${column}'.`);
+        }
+      }
+    });
+  });
+
+  buckets.forEach((bucket, i) => {
+    if (!isObject(bucket) || typeof bucket.$id !== 'string') {
+      problems.push(`buckets[${i}] has no $id.`);
+    }
+  });
+
+  return problems;
+};
+
+/**
+ * Lint the migration directory without connecting to Appwrite: version names, loadable
+ * migration modules, unique migration IDs and well-formed snapshots.
+ */
+export const validateMigrations = async (): Promise<ValidationResult> => {
+  const migrationsDir = getMigrationsDir();
+  const issues: ValidationIssue[] = [];
+  const error = (message: string, version?: string) =>
+    issues.push({ level: 'error', version, message });
+  const warning = (message: string, version?: string) =>
+    issues.push({ level: 'warning', version, message });
+
+  if (!fs.existsSync(migrationsDir)) {
+    error(`Migrations directory not found at ${migrationsDir}`);
+    return { versions: 0, issues, valid: false };
+  }
+
+  for (const dir of findInvalidVersionDirs(migrationsDir)) {
+    error('Invalid version directory name. Use vN or vYYYYMMDDHHmmss.', dir);
+  }
+
+  const versionDirs = discoverVersions(migrationsDir);
+  for (const group of findDuplicateVersions(versionDirs)) {
+    error(`Duplicate versions: ${group.join(' = ')}.`, group[1]);
+  }
+
+  const snapshotFilename = getSnapshotFilename();
+  const versionsById = new Map<string, string>();
+
+  for (const version of versionDirs) {
+    const versionPath = path.join(migrationsDir, version);
+
+    const indexFile = resolveIndexFile(versionPath);
+    if (!indexFile) {
+      error('No index.ts or index.js found.', version);
+    } else {
+      try {
+        const migration = await loadMigration(version, indexFile);
+        if (typeof migration.up !== 'function') {
+          error('Migration has no up function.', version);
+        }
+        if (migration.down !== undefined && typeof migration.down !== 'function') {
+          error('Migration down must be a function.', version);
+        }
+        const { allowDestructive } = migration;
+        if (
+          allowDestructive !== undefined &&
+          (!Array.isArray(allowDestructive) ||
+            allowDestructive.some((entry) => typeof entry !== 'string'))
+        ) {
+          error('Migration allowDestructive must be an array of strings.', version);
+        }
+
+        const other = versionsById.get(migration.id);
+        if (other) {
+          error(`Migration id ${migration.id} is already used by ${other}.`, version);
+        } else {
+          versionsById.set(migration.id, version);
+        }
+      } catch (loadError) {
+        error((loadError as Error).message, version);
+      }
+    }
+
+    const snapshotPath = path.join(versionPath, snapshotFilename);
+    if (!fs.existsSync(snapshotPath)) {
+      warning(`No ${snapshotFilename}; schema sync will be skipped.`, version);
+      continue;
+    }
+
+    let snapshot: unknown;
+    try {
+      snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf8'));
+    } catch (parseError) {
+      error(`Malformed ${snapshotFilename}: ${(parseError as Error).message}`, version);
+      continue;
+    }
+    for (const problem of validateSnapshot(snapshot)) {
+      error(`${snapshotFilename}: ${problem}`, version);
+    }
+  }
+
+  return {
+    versions: versionDirs.length,
+    issues,
+    valid: issues.every((issue) => issue.level !== 'error'),
+  };
+};
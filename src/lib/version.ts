@@ -0,0 +1,12 @@
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Get the installed appwrite-ctl version from its package.json.
+ */
+export const getToolVersion = (): string => {
+  // Same relative location from src/lib and dist/lib.
+  const pkg = require('../../package.json') as { version: string };
+  return pkg.version;
+};
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * How `migrations create` names new version directories:
+ * - `sequential`: `v1`, `v2`, ... (default)
+ * - `timestamp`: `v20250314093000` (UTC creation time), so versions created on different
+ *   branches never collide.
+ *
+ * Both schemes order numerically, and timestamps always sort after sequential versions,
+ * so a project can switch from one to the other at any time.
+ */
+export type VersionNaming = 'sequential' | 'timestamp';
+
+const VERSION_PATTERN = /^v(\d+)$/;
+
+/**
+ * Numeric value of a version directory name, or null if the name is not a version.
+ */
+export const parseVersion = (name: string): number | null => {
+  const match = name.match(VERSION_PATTERN);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Order two version directory names. Shared by every command that lists versions.
+ */
+export const compareVersions = (a: string, b: string): number =>
+  (parseVersion(a) ?? 0) - (parseVersion(b) ?? 0) || a.localeCompare(b);
+
+/**
+ * List the version directories inside the migrations directory, in order.
+ */
+export const discoverVersions = (migrationsDir: string): string[] =>
+  fs
+    .readdirSync(migrationsDir)
+    .filter(
+      (dir) =>
+        parseVersion(dir) !== null && fs.statSync(path.join(migrationsDir, dir)).isDirectory(),
+    )
+    .sort(compareVersions);
+
+/**
+ * Directories that look like versions (`v...`) but cannot be ordered, e.g. `v8-feature`.
+ * The runner refuses to start while they exist, instead of silently skipping them.
+ */
+export const findInvalidVersionDirs = (migrationsDir: string): string[] =>
+  fs
+    .readdirSync(migrationsDir)
+    .filter(
+      (dir) =>
+        dir.startsWith('v') &&
+        parseVersion(dir) === null &&
+        fs.statSync(path.join(migrationsDir, dir)).isDirectory(),
+    );
+
+/**
+ * Groups of version directories that share the same position, e.g. `v8` and `v08`.
+ */
+export const findDuplicateVersions = (versions: string[]): string[][] => {
+  const byValue = new Map<number, string[]>();
+  for (const version of versions) {
+    const value = parseVersion(version)!;
+    byValue.set(value, [...(byValue.get(value) ?? []), version]);
+  }
+  return [...byValue.values()].filter((group) => group.length > 1);
+};
+
+/**
+ * Format a date as a timestamp version name (`vYYYYMMDDHHmmss`, UTC).
+ */
+const toTimestampVersion = (date: Date): string =>
+  `v${date
+    .toISOString()
+    .replace(/\.\d+Z$/, '')
+    .replace(/\D/g, '')}`;
+
+/**
+ * Compute the names of `count` new versions ordered after every existing one.
+ */
+export const nextVersionNames = (
+  existing: string[],
+  naming: VersionNaming,
+  count = 1,
+  now: Date = new Date(),
+): string[] => {
+  const highest = Math.max(0, ...existing.map((version) => parseVersion(version) ?? 0));
+  const names: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const previous = Math.max(highest, ...names.map((name) => parseVersion(name)!));
+    if (naming === 'timestamp') {
+      const candidate = toTimestampVersion(new Date(now.getTime() + i * 1000));
+      // Never go backwards, e.g. when several versions are created within the same second.
+      names.push(parseVersion(candidate)! > previous ? candidate : `v${previous + 1}`);
+    } else {
+      names.push(`v${previous + 1}`);
+    }
+  }
+
+  return names;
+};
+
+/**
+ * Read the version naming scheme from appwrite-ctl.config.json (`versionNaming`).
+ * Does not require Appwrite credentials, so `migrations create` works offline.
+ */
+export const getVersionNaming = (): VersionNaming => {
+  const configPath = path.join(process.cwd(), 'appwrite', 'appwrite-ctl.config.json');
+  if (fs.existsSync(configPath)) {
+    try {
+      const cfg = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      if (cfg.versionNaming === 'timestamp') return 'timestamp';
+    } catch {
+      // Ignore parse errors, keep default
+    }
+  }
+  return 'sequential';
+};
@@ -1,16 +1,134 @@
 // Re-export Appwrite types so users don't need to install the SDK directly just for types if they don't want to
-import type { Client, Databases } from 'node-appwrite';
-export type { Client, Databases } from 'node-appwrite';
+import type {
+  Client,
+  Databases,
+  Functions,
+  Messaging,
+  Models,
+  Storage,
+  TablesDB,
+  Teams,
+  Users,
+} from 'node-appwrite';
+export type {
+  Client,
+  Databases,
+  Functions,
+  Messaging,
+  Storage,
+  TablesDB,
+  Teams,
+  Users,
+} from 'node-appwrite';
 
 export type Logger = (msg: string) => void;
 
+// Progress output of appwrite-ctl operations. Defaults to the console; inject your own to
+// capture or silence it when using the programmatic API.
+export interface OperationLogger {
+  info: Logger;
+  success: Logger;
+  warn: Logger;
+  error: Logger;
+}
+
+export interface BulkOptions {
+  queries?: string[]; // Only documents matching these queries are processed
+  after?: string; // Start after this document ID, e.g. one saved with `checkpoint.set`
+  pageSize?: number; // Documents fetched per request (default: 100)
+  concurrency?: number; // Documents processed in parallel (default: 10)
+  onPage?: (lastId: string) => Promise<void>; // Called after each page, e.g. to save a checkpoint
+}
+
+export interface BulkResult {
+  processed: number;
+  changed: number; // Documents updated or deleted (or that would be, in a dry run)
+}
+
+// Returns the fields to update, or null/undefined to leave the document unchanged.
+export type DocumentTransform = (
+  document: Models.DefaultDocument,
+) =>
+  | Record<string, unknown>
+  | null
+  | undefined
+  | Promise<Record<string, unknown> | null | undefined>;
+
+export interface BulkHelpers {
+  iterate: (
+    databaseId: string,
+    collectionId: string,
+    queries?: string[],
+    options?: Pick<BulkOptions, 'pageSize' | 'after'>,
+  ) => AsyncGenerator<Models.DefaultDocument>;
+  forEach: (
+    databaseId: string,
+    collectionId: string,
+    task: (document: Models.DefaultDocument) => Promise<void>,
+    options?: BulkOptions,
+  ) => Promise<BulkResult>;
+  updateAll: (
+    databaseId: string,
+    collectionId: string,
+    transform: DocumentTransform,
+    options?: BulkOptions,
+  ) => Promise<BulkResult>;
+  deleteAll: (
+    databaseId: string,
+    collectionId: string,
+    options?: Pick<BulkOptions, 'queries' | 'pageSize'>,
+  ) => Promise<BulkResult>;
+}
+
+// Progress of a long-running migration, persisted so a re-run can resume where it stopped.
+export interface MigrationCheckpoint {
+  get: <T = unknown>() => Promise<T | null>;
+  set: (value: unknown) => Promise<void>; // Any JSON-serializable value, e.g. the last document ID
+  clear: () => Promise<void>;
+}
+
 export interface MigrationContext {
   client: Client;
   databases: Databases;
+  tablesDB: TablesDB;
+  storage: Storage;
+  users: Users;
+  teams: Teams;
+  functions: Functions;
+  messaging: Messaging;
+  bulk: BulkHelpers; // Paginated iteration and batched updates/deletes with progress logging
+  checkpoint: MigrationCheckpoint;
   log: Logger;
   error: Logger;
+  version: string; // Version directory being run (e.g. 'v3')
+  migrationId: string;
+  projectId: string; // Appwrite project the migration runs against
+  endpoint: string;
+}
+
+export type HookName = 'beforeAll' | 'afterPush' | 'beforeUp' | 'afterUp' | 'afterAll' | 'onError';
+
+// Progress of the run a hook is called from.
+export interface HookRun {
+  startedAt: string;
+  pending: string[]; // Versions selected by the run, in order
+  applied: { version: string; id: string; durationMs: number }[]; // Versions applied so far
+}
+
+// Run-level hooks (beforeAll, afterAll, onError before a version started) have no version.
+export interface HookContext extends Omit<
+  MigrationContext,
+  'version' | 'migrationId' | 'checkpoint'
+> {
+  hook: HookName;
+  run: HookRun;
+  version?: string;
+  migrationId?: string;
+  failure?: Error; // Error that failed the run; only set for onError
 }
 
+export type Hook = (context: HookContext) => void | Promise<void>;
+
 export type MigrationFunction = (context: MigrationContext) => Promise<void>;
 
 export interface Migration {
@@ -18,6 +136,33 @@ export interface Migration {
   description?: string;
   up: MigrationFunction;
   down?: MigrationFunction;
+  // Destructive schema changes this version's snapshot may make, by kind ('drop-column') or
+  // resource ID ('app/orders/note'). Any other destructive change blocks the run.
+  allowDestructive?: string[];
+}
+
+// 'unmarked': the record was reset by hand with `migrations unmark`; the version counts as pending.
+// 'rolled-back': the version was reverted with `migrations down`; it counts as pending as well.
+export type MigrationStatus = 'running' | 'succeeded' | 'failed' | 'unmarked' | 'rolled-back';
+
+// How a record was written: by executing or rolling back the migration, or by changing its
+// state by hand.
+export type MigrationSource = 'run' | 'rollback' | 'baseline' | 'mark-applied' | 'unmark';
+
+export interface MigrationRecordDetails {
+  status?: MigrationStatus;
+  durationMs?: number;
+  executedBy?: string; // Author resolved from git config or the OS username
+  toolVersion?: string; // appwrite-ctl version that ran the migration
+  checksum?: string; // SHA-256 of the version's index file and snapshot
+  error?: string; // Failure message, only set when status is 'failed'
+  source?: MigrationSource; // Unset for records written before the source was tracked
+}
+
+export interface MigrationRecord extends MigrationRecordDetails {
+  id: string; // Migration ID
+  name: string; // Version directory name, e.g. v3
+  appliedAt: string; // ISO date of the status change
 }
 
 export interface Config {
@@ -50,3 +195,83 @@ export interface SecurityLedger {
     buckets?: SecurityExceptions;
   };
 }
+
+// Schema snapshot (`appwrite.config.json`) structures, as written by the Appwrite CLI.
+
+export interface Column {
+  key: string;
+  type: string;
+  required?: boolean;
+  array?: boolean;
+  size?: number;
+  default?: unknown;
+  min?: number;
+  max?: number;
+  format?: string;
+  elements?: string[];
+  encrypt?: boolean;
+  relatedTable?: string;
+  relationType?: string;
+  twoWay?: boolean;
+  twoWayKey?: string;
+  onDelete?: string;
+  side?: string;
+}
+
+export interface Index {
+  key: string;
+  type: string;
+  status?: string;
+  columns: string[];
+  lengths?: number[];
+  orders: string[];
+}
+
+export interface Table {
+  $id: string;
+  $permissions: string[];
+  databaseId: string;
+  name: string;
+  enabled: boolean;
+  rowSecurity: boolean;
+  columns: Column[];
+  indexes: Index[];
+}
+
+export interface Database {
+  $id: string;
+  name: string;
+  enabled: boolean;
+}
+
+export interface Bucket {
+  $id: string;
+  $permissions: string[];
+  fileSecurity: boolean;
+  name: string;
+  enabled: boolean;
+  maximumFileSize: number;
+  allowedFileExtensions: string[];
+  compression: string;
+  encryption: boolean;
+  antivirus: boolean;
+}
+
+export interface Team {
+  $id: string;
+  name: string;
+}
+
+export interface Topic {
+  $id: string;
+  name: string;
+}
+
+export interface Snapshot {
+  projectId: string;
+  tablesDB: Database[];
+  tables: Table[];
+  buckets: Bucket[];
+  teams: Team[];
+  topics: Topic[];
+}